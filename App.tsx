@@ -1,138 +1,175 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Column, Message } from './types';
+import { Column, Message, MessageVariant, ModelSettings, TextQuoteSelector } from './types';
 import { ChatColumn } from './components/ChatColumn';
-import { streamGeminiResponse } from './services/geminiService';
+import { getSourceAnchorId } from './components/MessageBubble';
+import { getDefaultModel, mergeModelSettings, planColumnContext, prepareColumnContext, streamColumnResponse } from './services/llmService';
+import { GenerationOptions } from './services/llmProvider';
+import { addVariant, getActiveVariantId, getVariants, patchVariant, selectVariant } from './services/variantService';
+import { SessionList } from './components/SessionList';
+import { SettingsPanel } from './components/SettingsPanel';
+import { BranchActionsPanel } from './components/BranchActionsPanel';
+import { BranchAction, BranchChoice, loadBranchActions, normalizeShortcut, renderBranchPrompt, saveBranchActions, shortcutFromEvent } from './services/branchActionService';
+import { createTaskQueue } from './services/taskQueue';
+import { SYNTHESIS_MODES, SynthesisMode, getSynthesisMode } from './services/synthesisService';
+import { ContextPreview } from './components/ContextPreview';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { ImageExportDialog } from './components/ImageExportDialog';
+import { CanvasSnapshot } from './services/canvasImageService';
+import { UndoEntry, pushUndoEntry, restoreColumns } from './services/undoService';
+import { CURRENT_CANVAS, SnapshotPanel } from './components/SnapshotPanel';
+import { SearchPalette } from './components/SearchPalette';
+import { DropPosition, OutlineSidebar } from './components/OutlineSidebar';
+import { MoveBranchDialog } from './components/MoveBranchDialog';
+import { ReattachTarget, getBranchGroupIds, getReattachError, reattachColumn } from './services/reattachService';
+import { FoldMenu } from './components/FoldMenu';
+import { LayoutMenu } from './components/LayoutMenu';
+import { Minimap } from './components/Minimap';
+import { DEFAULT_LAYOUT_MODE, LAYOUT_MODES, Layout, LayoutMetrics, LayoutMode, calculateLayout, getConnectorFlow, getConnectorPath, interpolateLayout, isLayoutMode, rebaseOffsets } from './services/layoutService';
+import { countDescendants, foldBelowDepth, getColumnDepths, getFoldedAwayIds, revealColumn, unfoldAll } from './services/foldService';
+import { SearchResult, getSearchTerms } from './services/searchService';
+import { getContextColumns } from './services/historyService';
+import { CanvasDiffMarks, diffTrees, getCanvasDiffMarks, summarizeDiff } from './services/snapshotDiffService';
+import { CanvasFile, graftCanvasFile, serializeCanvas } from './services/canvasFileService';
+import { downloadTextFile, toFileName } from './services/exportService';
+import { ProviderSettings, loadProviderSettings, saveProviderSettings } from './services/settingsService';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { ShortcutsPanel } from './components/ShortcutsPanel';
+import {
+  COMMANDS,
+  CommandId,
+  NavigationDirection,
+  ShortcutBindings,
+  findCommandForShortcut,
+  getAdjacentColumnId,
+  getCommandShortcuts,
+  loadShortcutBindings,
+  saveShortcutBindings
+} from './services/shortcutService';
+import {
+  SESSION_SCHEMA_VERSION,
+  SessionSummary,
+  StoredSession,
+  StoredSnapshot,
+  deleteSession,
+  deleteSnapshot,
+  duplicateSession,
+  listSessions,
+  listSnapshots,
+  loadSession,
+  renameSession,
+  saveSession,
+  saveSnapshot
+} from './services/storageService';
 
 // Layout Constants
 const NODE_WIDTH = 450;
 const NODE_GAP_X = 150;
 const NODE_GAP_Y = 50;
+const CLUSTER_GAP_Y = 24; // Tighter spacing between branches fanned out together
+const CLUSTER_PADDING = 16;
 const NODE_DEFAULT_HEIGHT = 200; // Fallback height
+const MIN_NODE_WIDTH = 320;
+const MAX_NODE_WIDTH = 1600;
+const MIN_NODE_HEIGHT = 200; // Matches the card's own minimum
+const LAYOUT_METRICS: LayoutMetrics = {
+  nodeWidth: NODE_WIDTH,
+  defaultHeight: NODE_DEFAULT_HEIGHT,
+  gapX: NODE_GAP_X,
+  gapY: NODE_GAP_Y,
+  clusterGapY: CLUSTER_GAP_Y
+};
+const LAYOUT_TRANSITION_MS = 450; // Nodes glide to their new places when the layout is switched or re-arranged
+const FIT_MARGIN = 80; // Screen pixels kept free around the tree by "Zoom to fit"
+const KEYBOARD_ZOOM_STEP = 100; // Wheel delta of one zoom-in/out key press, i.e. 10%
+
+// Persistence
+const SAVE_DEBOUNCE_MS = 800;
+const MAX_CACHED_SUMMARIES = 8; // Per column
+
+const UNDO_TOAST_MS = 6000;
+const SEARCH_FOCUS_DELAY_MS = 350; // Longer than a column's expand animation
+
+const createRootColumn = (): Column => ({
+  id: uuidv4(),
+  title: 'Root',
+  parentId: null,
+  parentMessageId: null,
+  contextSnippet: null,
+  messages: [],
+  inputValue: '',
+  isThinking: false,
+  isCollapsed: false
+});
 
 interface ConnectorLine {
   id: string;
   path: string;
+  isMerge?: boolean; // Edge into a synthesis column from one of its sources
   startX: number;
   startY: number;
   endX: number;
   endY: number;
 }
 
-// Minimap Component
-const Minimap: React.FC<{
-  layout: Map<string, {x: number, y: number, height: number}>;
-  nodeOffsets: Map<string, {x: number, y: number}>;
-  pan: {x: number, y: number};
-  scale: number;
-  viewportSize: {w: number, h: number};
-}> = ({ layout, nodeOffsets, pan, scale, viewportSize }) => {
-  if (layout.size === 0) return null;
-
-  // Calculate World Bounds
-  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-  
-  layout.forEach((pos, id) => {
-    const offset = nodeOffsets.get(id) || {x: 0, y: 0};
-    const x = pos.x + offset.x;
-    const y = pos.y + offset.y - (pos.height / 2);
-    minX = Math.min(minX, x);
-    maxX = Math.max(maxX, x + NODE_WIDTH);
-    minY = Math.min(minY, y);
-    maxY = Math.max(maxY, y + pos.height);
-  });
-
-  // Add padding to bounds
-  const padding = 500;
-  minX -= padding;
-  maxX += padding;
-  minY -= padding;
-  maxY += padding;
-  
-  const worldW = maxX - minX;
-  const worldH = maxY - minY;
-
-  // Minimap dimensions
-  const mapW = 200;
-  const mapH = 150;
-  
-  // Calculate scaling ratio to fit world into minimap
-  const ratioX = mapW / worldW;
-  const ratioY = mapH / worldH;
-  const ratio = Math.min(ratioX, ratioY);
-
-  const renderW = worldW * ratio;
-  const renderH = worldH * ratio;
-  
-  const offsetX = (mapW - renderW) / 2;
-  const offsetY = (mapH - renderH) / 2;
-
-  // Viewport Rect calculation
-  // Viewport in world coords:
-  const vpWorldX = -pan.x / scale;
-  const vpWorldY = -pan.y / scale;
-  const vpWorldW = viewportSize.w / scale;
-  const vpWorldH = viewportSize.h / scale;
-
-  return (
-    <div className="absolute top-20 right-6 w-[200px] h-[150px] bg-gray-900/80 border border-gray-700 rounded-lg shadow-2xl backdrop-blur-sm z-50 overflow-hidden pointer-events-none">
-       <div className="relative w-full h-full">
-          {/* Nodes */}
-          {Array.from(layout.entries()).map(([id, pos]) => {
-              const offset = nodeOffsets.get(id) || {x: 0, y: 0};
-              const x = pos.x + offset.x;
-              const y = pos.y + offset.y - (pos.height / 2);
-              
-              return (
-                  <div 
-                    key={id}
-                    className="absolute bg-indigo-500/50 rounded-sm"
-                    style={{
-                        left: offsetX + (x - minX) * ratio,
-                        top: offsetY + (y - minY) * ratio,
-                        width: NODE_WIDTH * ratio,
-                        height: pos.height * ratio
-                    }}
-                  />
-              );
-          })}
-          
-          {/* Viewport Rect */}
-          <div 
-            className="absolute border-2 border-white/50 rounded-sm shadow-[0_0_0_1000px_rgba(0,0,0,0.5)]"
-            style={{
-                left: offsetX + (vpWorldX - minX) * ratio,
-                top: offsetY + (vpWorldY - minY) * ratio,
-                width: vpWorldW * ratio,
-                height: vpWorldH * ratio
-            }}
-          />
-       </div>
-    </div>
-  );
-};
-
+// Estimated history size of a column's next message
+interface ContextUsage {
+  tokens: number;
+  rawTokens: number;
+  budget: number;
+}
 
 const App: React.FC = () => {
   const [hasStarted, setHasStarted] = useState(false);
   const [landingInput, setLandingInput] = useState('');
   
   // State
-  const [columns, setColumns] = useState<Column[]>([
-    {
-      id: uuidv4(),
-      title: 'Root',
-      parentId: null,
-      parentMessageId: null,
-      contextSnippet: null,
-      messages: [],
-      inputValue: '',
-      isThinking: false,
-      isCollapsed: false
-    }
-  ]);
+  const [columns, setColumns] = useState<Column[]>(() => [createRootColumn()]);
   const [selectedColumnId, setSelectedColumnId] = useState<string>(columns[0].id);
   const [globalInput, setGlobalInput] = useState('');
+
+  // Provider Settings
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  // Selection tooltip actions
+  const [branchActions, setBranchActions] = useState<BranchAction[]>(loadBranchActions);
+  const [isActionsPanelOpen, setIsActionsPanelOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [imageSnapshot, setImageSnapshot] = useState<CanvasSnapshot | null>(null); // Canvas frozen for image export
+  const [isSnapshotPanelOpen, setIsSnapshotPanelOpen] = useState(false);
+  // A named snapshot shown read-only in place of the live tree
+  const [viewingSnapshot, setViewingSnapshot] = useState<StoredSnapshot | null>(null);
+  // Changes between two states marked on the canvas
+  const [canvasComparison, setCanvasComparison] = useState<{ label: string; summary: string; marks: CanvasDiffMarks } | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  // The search result jumped to last; its matches stay marked until another column is selected
+  const [searchHit, setSearchHit] = useState<{ columnId: string; messageId: string | null; query: string; terms: string[] } | null>(null);
+
+  const handleSaveBranchActions = (actions: BranchAction[]) => {
+    saveBranchActions(actions);
+    setBranchActions(actions);
+    setIsActionsPanelOpen(false);
+  };
+
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isShortcutsPanelOpen, setIsShortcutsPanelOpen] = useState(false);
+
+  const handleSaveShortcuts = (bindings: ShortcutBindings) => {
+    saveShortcutBindings(bindings);
+    setShortcutBindings(bindings);
+    setIsShortcutsPanelOpen(false);
+  };
   
   // Dynamic Height State
   const [nodeHeights, setNodeHeights] = useState<Map<string, number>>(new Map());
@@ -155,19 +192,29 @@ const App: React.FC = () => {
   
   // Dragging State
   const dragRef = useRef<{
-    type: 'canvas' | 'node';
+    type: 'canvas' | 'node' | 'resize';
     startX: number;
     startY: number;
     targetId?: string;
     initialPan?: {x: number, y: number};
     initialNodeOffset?: {x: number, y: number};
+    initialSize?: { width: number; height: number; horizontal: boolean; vertical: boolean }; // Resizing: the card and which edges move
+    undoEntry?: UndoEntry; // Canvas before a node drag, recorded once the node actually moves
+    hasMoved?: boolean;
+    dropTarget?: { columnId: string; messageId: string } | null; // Reply under the cursor while Alt is held
   } | null>(null);
 
   const lastMousePos = useRef({ x: 0, y: 0 });
   
-  const [layout, setLayout] = useState<Map<string, {x: number, y: number, height: number}>>(new Map());
+  const [layout, setLayout] = useState<Layout>(new Map());
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(DEFAULT_LAYOUT_MODE);
   const [nodeOffsets, setNodeOffsets] = useState<Map<string, {x: number, y: number}>>(new Map());
   const [lines, setLines] = useState<ConnectorLine[]>([]);
+
+  // What the canvas draws: the live tree, or the snapshot being viewed
+  const canvasColumns = viewingSnapshot ? viewingSnapshot.columns : columns;
+  const snapshotOffsets = useMemo(() => new Map(viewingSnapshot?.nodeOffsets ?? []), [viewingSnapshot]);
+  const canvasOffsets = viewingSnapshot ? snapshotOffsets : nodeOffsets;
   const [viewportSize, setViewportSize] = useState({ w: window.innerWidth, h: window.innerHeight });
 
   // Update viewport size on resize
@@ -177,86 +224,308 @@ const App: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // --- Tree Layout Algorithm (Stable / Waterfall) ---
-  const calculateLayout = useMemo(() => {
-    const newLayout = new Map<string, {x: number, y: number, height: number}>();
-    
-    // Helper to get children
-    const getChildren = (parentId: string | null) => columns.filter(c => c.parentId === parentId);
+  // --- Session Persistence ---
+  const [sessionId, setSessionId] = useState<string>(() => uuidv4());
+  const [sessionName, setSessionName] = useState('');
+  const sessionCreatedAt = useRef(Date.now());
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const pendingSaveRef = useRef<StoredSession | null>(null);
+  // Column whose restored camera should not be overridden by auto-focus
+  const restoredCameraRef = useRef<string | null>(null);
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.error("Failed to list sessions:", error));
+  }, []);
 
-    // Recursive function to position nodes top-down.
-    // Returns the Y coordinate of the BOTTOM of the subtree rooted at nodeId.
-    const positionNode = (nodeId: string, x: number, startY: number): number => {
-      const currentHeight = nodeHeights.get(nodeId) || NODE_DEFAULT_HEIGHT;
-      
-      // Place the current node. 
-      // We align the node's visual top with 'startY'.
-      // 'y' in our layout map represents the CENTER of the node (for CSS transform consistency)
-      const nodeCenterY = startY + (currentHeight / 2);
-      newLayout.set(nodeId, {x, y: nodeCenterY, height: currentHeight});
-      
-      const children = getChildren(nodeId);
-      
-      // If leaf node, return the bottom of this node
-      if (children.length === 0) {
-        return startY + currentHeight;
-      }
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const flushSave = useCallback(async () => {
+    const session = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!session) return;
+    try {
+      await saveSession(session);
+    } catch (error) {
+      console.error("Failed to save session:", error);
+    }
+  }, []);
 
-      // If has children, place them.
-      let currentChildTopY = startY; 
-      
-      children.forEach(child => {
-        const childSubtreeBottom = positionNode(
-          child.id, 
-          x + NODE_WIDTH + NODE_GAP_X, 
-          currentChildTopY
-        );
-        // The next sibling starts after the previous sibling's entire subtree + gap
-        currentChildTopY = childSubtreeBottom + NODE_GAP_Y;
-      });
+  // Debounced save: streaming updates columns many times per second,
+  // so only the state that is still current after a pause gets written.
+  useEffect(() => {
+    if (!hasStarted) return;
+    pendingSaveRef.current = {
+      id: sessionId,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      name: sessionName || columns[0]?.title || 'Untitled',
+      createdAt: sessionCreatedAt.current,
+      updatedAt: Date.now(),
+      columns,
+      nodeOffsets: Array.from(nodeOffsets.entries()),
+      pan,
+      scale,
+      selectedColumnId,
+      layoutMode
+    };
+    const timer = setTimeout(flushSave, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [hasStarted, sessionId, sessionName, columns, nodeOffsets, pan, scale, selectedColumnId, layoutMode, flushSave]);
 
-      // The bottom of this specific node's subtree is defined by the last child's bottom position.
-      // (currentChildTopY has already added one extra GAP, so remove it)
-      const lastChildBottom = currentChildTopY - NODE_GAP_Y;
+  useEffect(() => {
+    const handleBeforeUnload = () => { flushSave(); };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [flushSave]);
+
+  const openSession = async (id: string) => {
+    let session: StoredSession | null = null;
+    try {
+      session = await loadSession(id);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Unable to open this exploration.");
+      return;
+    }
+    if (!session) {
+      refreshSessions();
+      return;
+    }
 
-      // Ensure the subtree height accounts for the node itself growing larger than its children stack
-      const myBottom = startY + currentHeight;
-      return Math.max(myBottom, lastChildBottom);
-    };
+    resetUndoHistory();
+    setSessionId(session.id);
+    setSessionName(session.name);
+    sessionCreatedAt.current = session.createdAt;
+    setColumns(session.columns);
+    setNodeOffsets(new Map(session.nodeOffsets));
+    setNodeHeights(new Map());
+    setLayoutMode(isLayoutMode(session.layoutMode) ? session.layoutMode : DEFAULT_LAYOUT_MODE);
+    setPan(session.pan);
+    setScale(session.scale);
+    setSelectedColumnId(session.selectedColumnId);
+    restoredCameraRef.current = session.selectedColumnId;
+    setGlobalInput('');
+    setHasStarted(true);
+  };
 
-    // Start layout from Root(s)
-    let currentRootTopY = 0;
-    const roots = getChildren(null);
-    
-    roots.forEach(root => {
-        const rootBottom = positionNode(root.id, 0, currentRootTopY);
-        currentRootTopY = rootBottom + NODE_GAP_Y;
+  const handleGoHome = async () => {
+    columns.forEach(col => branchQueue.cancel(col.id));
+    abortControllersRef.current.forEach(controller => controller.abort());
+    await flushSave();
+    resetUndoHistory();
+    const root = createRootColumn();
+    setColumns([root]);
+    setSelectedColumnId(root.id);
+    setNodeOffsets(new Map());
+    setNodeHeights(new Map());
+    setLayoutMode(DEFAULT_LAYOUT_MODE);
+    setPan({ x: 0, y: 0 });
+    setScale(1);
+    setSessionId(uuidv4());
+    setSessionName('');
+    sessionCreatedAt.current = Date.now();
+    setGlobalInput('');
+    setLandingInput('');
+    setHasStarted(false);
+    refreshSessions();
+  };
+
+  const handleExportCanvas = () => {
+    const name = sessionName || columns[0]?.title || 'Untitled';
+    const json = serializeCanvas({ name, columns, nodeOffsets, nodeHeights, pan, scale, selectedColumnId, layoutMode });
+    downloadTextFile(toFileName(name, 'deepdive.json'), json, 'application/json');
+  };
+
+  const handleOpenImageExport = () => {
+    const viewport = viewportRef.current;
+    setIsExportOpen(false);
+    setImageSnapshot({
+      columns: canvasColumns,
+      layout,
+      nodeOffsets: canvasOffsets,
+      lines,
+      viewport: {
+        x: -pan.x / scale,
+        y: -pan.y / scale,
+        width: (viewport?.clientWidth ?? viewportSize.w) / scale,
+        height: (viewport?.clientHeight ?? viewportSize.h) / scale
+      },
+      columnId: selectedColumnId
     });
+  };
+
+  const handleOpenCanvasFile = async (file: CanvasFile) => {
+    columns.forEach(col => branchQueue.cancel(col.id));
+    abortControllersRef.current.forEach(controller => controller.abort());
+    if (hasStarted) await flushSave();
+
+    resetUndoHistory();
+    setSessionId(uuidv4());
+    setSessionName(file.name);
+    sessionCreatedAt.current = Date.now();
+    setColumns(file.columns);
+    setNodeOffsets(new Map(Object.entries(file.nodeOffsets)));
+    setNodeHeights(new Map(Object.entries(file.nodeHeights)));
+    setLayoutMode(file.layoutMode ?? DEFAULT_LAYOUT_MODE);
+    setPan(file.pan);
+    setScale(file.scale);
+    setSelectedColumnId(file.selectedColumnId);
+    restoredCameraRef.current = file.selectedColumnId;
+    setGlobalInput('');
+    setIsImportOpen(false);
+    setHasStarted(true);
+  };
+
+  const handleGraftCanvasFile = (file: CanvasFile, columnId: string, messageId: string) => {
+    const targetMessage = columns.find(c => c.id === columnId)?.messages.find(m => m.id === messageId);
+    if (!targetMessage) return;
+    const grafted = graftCanvasFile(file, columnId, targetMessage);
+    recordUndo(`Import "${file.name}"`);
+    setColumns(prev => [...prev, ...grafted.columns]);
+    setNodeOffsets(prev => new Map([...prev, ...grafted.nodeOffsets]));
+    setSelectedColumnId(grafted.rootIds[0]);
+    setIsImportOpen(false);
+  };
+
+  // Storage failures are reported, and the list is reloaded either way so it shows what was actually saved
+  const reportSessionError = (action: string) => (error: unknown) => {
+    console.error(`Failed to ${action} exploration:`, error);
+    window.alert(`Could not ${action} the exploration: ${error instanceof Error ? error.message : String(error)}`);
+    refreshSessions();
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    renameSession(id, name).then(refreshSessions).catch(reportSessionError('rename'));
+  };
 
-    return newLayout;
-  }, [columns, nodeHeights]);
+  const handleDuplicateSession = (id: string) => {
+    duplicateSession(id, uuidv4()).then(refreshSessions).catch(reportSessionError('duplicate'));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id).then(refreshSessions).catch(reportSessionError('delete'));
+  };
+
+  // --- Tree Layout ---
+  const targetLayout = useMemo(
+    () => calculateLayout(canvasColumns, nodeHeights, layoutMode, LAYOUT_METRICS),
+    [canvasColumns, nodeHeights, layoutMode]
+  );
+
+  // Positions the nodes glide from after the user switches or re-arranges the layout
+  const [layoutTransition, setLayoutTransition] = useState<Layout | null>(null);
 
   useEffect(() => {
-      setLayout(calculateLayout);
-  }, [calculateLayout]);
+      if (!layoutTransition) {
+          setLayout(targetLayout);
+          return;
+      }
+      const startedAt = performance.now();
+      let frame = 0;
+      const step = (now: number) => {
+          const t = Math.min(1, (now - startedAt) / LAYOUT_TRANSITION_MS);
+          const eased = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+          setLayout(interpolateLayout(layoutTransition, targetLayout, eased));
+          if (t < 1) frame = requestAnimationFrame(step);
+          else setLayoutTransition(null);
+      };
+      frame = requestAnimationFrame(step);
+      return () => cancelAnimationFrame(frame);
+  }, [targetLayout, layoutTransition]);
+
+  // Starts a transition from where the nodes are on screen now, given the manual offsets that will apply next
+  const startLayoutTransition = (nextOffsets: Map<string, {x: number, y: number}>) => {
+      const from: Layout = new Map();
+      layout.forEach((pos, id) => {
+          const current = canvasOffsets.get(id) || {x: 0, y: 0};
+          const next = nextOffsets.get(id) || {x: 0, y: 0};
+          from.set(id, { ...pos, x: pos.x + current.x - next.x, y: pos.y + current.y - next.y });
+      });
+      setLayoutTransition(from);
+  };
+
+  const handleChangeLayoutMode = (mode: LayoutMode) => {
+      if (mode === layoutMode) return;
+      startLayoutTransition(canvasOffsets);
+      setLayoutMode(mode);
+  };
 
+  // Clears manual drags, or with `keepMovedBranches` keeps them only as whole-branch moves
+  const handleAutoArrange = (keepMovedBranches: boolean) => {
+      const nextOffsets = keepMovedBranches ? rebaseOffsets(columns, nodeOffsets) : new Map<string, {x: number, y: number}>();
+      recordUndo('Auto-arrange');
+      startLayoutTransition(nextOffsets);
+      setNodeOffsets(nextOffsets);
+  };
+
+  // Frames drawn behind each fan-out cluster, following members wherever they are dragged
+  const clusterFrames = useMemo(() => {
+    const frames = new Map<string, {left: number, top: number, right: number, bottom: number, count: number}>();
+    canvasColumns.forEach(col => {
+      if (!col.clusterId) return;
+      const pos = layout.get(col.id);
+      if (!pos) return;
+      const offset = canvasOffsets.get(col.id) || {x: 0, y: 0};
+      const left = pos.x + offset.x;
+      const top = pos.y + offset.y - pos.height / 2;
+      const frame = frames.get(col.clusterId);
+      frames.set(col.clusterId, {
+        left: Math.min(frame?.left ?? Infinity, left),
+        top: Math.min(frame?.top ?? Infinity, top),
+        right: Math.max(frame?.right ?? -Infinity, left + pos.width),
+        bottom: Math.max(frame?.bottom ?? -Infinity, top + pos.height),
+        count: (frame?.count ?? 0) + 1
+      });
+    });
+    // A cluster whose siblings were closed down to one is just a normal branch
+    return Array.from(frames.entries()).filter(([, frame]) => frame.count > 1);
+  }, [canvasColumns, layout, canvasOffsets]);
 
   // --- Connector Lines Logic ---
   const calculateLines = useCallback(() => {
     if (layout.size === 0) return;
     
     const newLines: ConnectorLine[] = [];
+    const flow = getConnectorFlow(layoutMode);
 
-    columns.forEach(col => {
+    canvasColumns.forEach(col => {
       if (!col.parentId) return;
+
+      // Synthesis columns have no anchor text: draw one edge per source, from its right edge
+      if (col.mergedFrom?.length) {
+          const pos = layout.get(col.id);
+          if (!pos) return;
+          const childOffset = canvasOffsets.get(col.id) || {x: 0, y: 0};
+          const endX = flow === 'vertical' ? pos.x + childOffset.x + pos.width / 2 : pos.x + childOffset.x;
+          const endY = flow === 'vertical' ? pos.y + childOffset.y - pos.height / 2 : pos.y + childOffset.y;
+          col.mergedFrom.forEach(sourceId => {
+              const sourcePos = layout.get(sourceId);
+              if (!sourcePos) return;
+              const sourceOffset = canvasOffsets.get(sourceId) || {x: 0, y: 0};
+              const startX = flow === 'vertical' ? sourcePos.x + sourceOffset.x + sourcePos.width / 2 : sourcePos.x + sourceOffset.x + sourcePos.width;
+              const startY = flow === 'vertical' ? sourcePos.y + sourceOffset.y + sourcePos.height / 2 : sourcePos.y + sourceOffset.y;
+              newLines.push({
+                id: `${col.id}:${sourceId}`,
+                path: getConnectorPath(startX, startY, endX, endY, flow),
+                isMerge: true,
+                startX,
+                startY,
+                endX,
+                endY
+              });
+          });
+          return;
+      }
       
       const pos = layout.get(col.id); // Child position (Base)
       const parentPos = layout.get(col.parentId); // Parent position (Base)
       
       if (pos && parentPos) {
           // Add offsets
-          const childOffset = nodeOffsets.get(col.id) || {x: 0, y: 0};
-          const parentOffset = nodeOffsets.get(col.parentId) || {x: 0, y: 0};
+          const childOffset = canvasOffsets.get(col.id) || {x: 0, y: 0};
+          const parentOffset = canvasOffsets.get(col.parentId) || {x: 0, y: 0};
 
           const finalChildX = pos.x + childOffset.x;
           const finalChildY = pos.y + childOffset.y;
@@ -264,11 +533,12 @@ const App: React.FC = () => {
           const finalParentX = parentPos.x + parentOffset.x;
           const finalParentY = parentPos.y + parentOffset.y;
 
+          // Radial layouts put some branches to the left of their parent: those leave and enter on the other side
+          const isLeftward = flow === 'horizontal' && finalChildX < finalParentX;
 
-          const sourceId = `source-${col.id}`;
-          const sourceEl = document.getElementById(sourceId);
+          const sourceEl = document.getElementById(getSourceAnchorId(col));
 
-          let startX = finalParentX + NODE_WIDTH; // Default to right edge of card
+          let startX = isLeftward ? finalParentX : finalParentX + parentPos.width; // Default to the card's edge
           let startY = finalParentY; // Default to center of card
 
           // Use DOM positions for accuracy
@@ -278,43 +548,39 @@ const App: React.FC = () => {
               if (sourceEl) {
                   // Connect from the specific highlighted text
                   const rects = sourceEl.getClientRects();
-                  let visualTop = 0;
-                  let visualRight = 0;
+                  const lastRect = rects.length > 0 ? rects[rects.length - 1] : sourceEl.getBoundingClientRect();
 
-                  if (rects.length > 0) {
-                      const lastRect = rects[rects.length - 1];
-                      visualTop = lastRect.top + (lastRect.height / 2);
-                      visualRight = lastRect.right;
+                  // Adjust for Scale:
+                  if (flow === 'vertical') {
+                      startY = (lastRect.bottom - contentRect.top) / scale;
+                      startX = (lastRect.left + lastRect.width / 2 - contentRect.left) / scale;
                   } else {
-                       const sourceRect = sourceEl.getBoundingClientRect();
-                       visualTop = sourceRect.top + (sourceRect.height / 2);
-                       visualRight = sourceRect.right;
+                      startY = (lastRect.top + (lastRect.height / 2) - contentRect.top) / scale;
+                      startX = isLeftward
+                          ? (lastRect.left - contentRect.left) / scale - 5
+                          : (lastRect.right - contentRect.left) / scale + 5;
+                      // Text scrolled out of a fixed-height card: start from the card's nearest edge
+                      startY = Math.min(Math.max(startY, finalParentY - parentPos.height / 2 + 24), finalParentY + parentPos.height / 2);
                   }
 
-                  // Adjust for Scale:
-                  startY = (visualTop - contentRect.top) / scale;
-                  startX = (visualRight - contentRect.left) / scale + 5;
-
+              } else if (flow === 'vertical') {
+                   // Fallback: bottom center of the card if source not found
+                   startY = finalParentY + (parentPos.height / 2);
+                   startX = finalParentX + parentPos.width / 2;
               } else {
                    // Fallback: Default to Top Right (Header area) if source not found
                    // We need to calculate manual fallback based on updated parent position
                    startY = (finalParentY - (parentPos.height / 2)) + 24; 
-                   startX = finalParentX + NODE_WIDTH;
               }
           }
 
-          const endX = finalChildX;
-          const endY = finalChildY; // Center of target node (vertical)
-
-          // Bezier Calculation
-          const dist = Math.abs(endX - startX);
-          const cp1X = startX + (dist * 0.5);
-          const cp2X = endX - (dist * 0.5); // Symmetrical curve
+          // Enter the child at its top (vertical) or at the side facing the parent
+          const endX = flow === 'vertical' ? finalChildX + pos.width / 2 : isLeftward ? finalChildX + pos.width : finalChildX;
+          const endY = flow === 'vertical' ? finalChildY - pos.height / 2 : finalChildY;
 
-          const path = `M ${startX} ${startY} C ${cp1X} ${startY}, ${cp2X} ${endY}, ${endX} ${endY}`;
           newLines.push({ 
             id: col.id, 
-            path,
+            path: getConnectorPath(startX, startY, endX, endY, flow),
             startX,
             startY,
             endX,
@@ -323,7 +589,7 @@ const App: React.FC = () => {
       }
     });
     setLines(newLines);
-  }, [layout, columns, scale, nodeOffsets]); 
+  }, [layout, layoutMode, canvasColumns, scale, canvasOffsets]); 
 
   // Handle scroll events from columns (removed) -> no longer needed as there is no internal scroll
   // But we might need to recalculate lines if height changes animate
@@ -342,7 +608,7 @@ const App: React.FC = () => {
          timers.forEach(t => clearTimeout(t));
          window.removeEventListener('resize', calculateLines);
      };
-  }, [layout, hasStarted, calculateLines, nodeHeights, scale, nodeOffsets]); 
+  }, [layout, hasStarted, calculateLines, nodeHeights, scale, canvasOffsets]); 
 
 
   // --- Panning, Zooming & Dragging Interaction ---
@@ -372,31 +638,73 @@ const App: React.FC = () => {
           startX: e.clientX,
           startY: e.clientY,
           targetId: columnId,
-          initialNodeOffset: currentOffset
+          initialNodeOffset: currentOffset,
+          undoEntry: createUndoEntry(`Move "${columns.find(c => c.id === columnId)?.title || 'column'}"`)
       };
       if (viewportRef.current) viewportRef.current.style.cursor = 'grabbing';
   };
 
-  const handleWheel = useCallback((e: React.WheelEvent) => {
-      if (!hasStarted) return;
-      e.stopPropagation(); 
-      // Zoom
+  const handleResizeStart = (e: React.MouseEvent, columnId: string, edges: { horizontal: boolean; vertical: boolean }) => {
+      e.stopPropagation();
+      e.preventDefault();
+
+      const column = columns.find(c => c.id === columnId);
+      dragRef.current = {
+          type: 'resize',
+          startX: e.clientX,
+          startY: e.clientY,
+          targetId: columnId,
+          initialSize: {
+              width: column?.width ?? NODE_WIDTH,
+              height: column?.height ?? nodeHeights.get(columnId) ?? NODE_DEFAULT_HEIGHT,
+              ...edges
+          },
+          undoEntry: createUndoEntry(`Resize "${column?.title || 'column'}"`)
+      };
+  };
+
+  // Fits the width to the content (or back to the default when there is nothing wide), and lets the height follow the messages
+  const handleFitColumnWidth = (columnId: string, contentWidth: number | undefined) => {
+      const column = columns.find(c => c.id === columnId);
+      if (!column) return;
+      const width = contentWidth === undefined ? undefined : Math.min(Math.max(contentWidth, NODE_WIDTH), MAX_NODE_WIDTH);
+      if (width === column.width && column.height === undefined) return;
+      recordUndo(`Fit "${column.title || 'column'}" to content`);
+      setColumns(prev => prev.map(c => c.id === columnId ? { ...c, width, height: undefined } : c));
+  };
+
+  // Zooms so the canvas point under (screenX, screenY) stays put
+  const zoomAt = useCallback((screenX: number, screenY: number, deltaY: number) => {
       const zoomSensitivity = 0.001;
-      const newScale = Math.min(Math.max(0.1, scale - e.deltaY * zoomSensitivity), 3);
+      const newScale = Math.min(Math.max(0.1, scale - deltaY * zoomSensitivity), 3);
       
-      // Calculate new pan to zoom towards mouse pointer
-      const mouseX = e.clientX;
-      const mouseY = e.clientY;
+      const worldX = (screenX - pan.x) / scale;
+      const worldY = (screenY - pan.y) / scale;
       
-      const worldX = (mouseX - pan.x) / scale;
-      const worldY = (mouseY - pan.y) / scale;
-      
-      const newPanX = mouseX - worldX * newScale;
-      const newPanY = mouseY - worldY * newScale;
+      const newPanX = screenX - worldX * newScale;
+      const newPanY = screenY - worldY * newScale;
 
       setScale(newScale);
       setPan({ x: newPanX, y: newPanY });
-  }, [scale, pan, hasStarted]);
+  }, [scale, pan]);
+
+  const handleWheel = useCallback((e: React.WheelEvent) => {
+      if (!hasStarted) return;
+      e.stopPropagation(); 
+      // Zoom towards mouse pointer
+      zoomAt(e.clientX, e.clientY, e.deltaY);
+  }, [zoomAt, hasStarted]);
+
+  // Minimap and keyboard navigation: the viewport's center moves to the point, or zooms around it
+  const handleMinimapCenterOn = (worldX: number, worldY: number) => {
+      const viewportW = viewportRef.current?.clientWidth ?? viewportSize.w;
+      const viewportH = viewportRef.current?.clientHeight ?? viewportSize.h;
+      setPan({ x: viewportW / 2 - worldX * scale, y: viewportH / 2 - worldY * scale });
+  };
+
+  const zoomAtCenter = (deltaY: number) => {
+      zoomAt((viewportRef.current?.clientWidth ?? viewportSize.w) / 2, (viewportRef.current?.clientHeight ?? viewportSize.h) / 2, deltaY);
+  };
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -411,6 +719,16 @@ const App: React.FC = () => {
                  x: dragRef.current.initialPan.x + dx,
                  y: dragRef.current.initialPan.y + dy
              });
+        } else if (dragRef.current.type === 'resize' && dragRef.current.targetId && dragRef.current.initialSize) {
+             const { targetId, initialSize } = dragRef.current;
+             const width = Math.min(Math.max(initialSize.width + dx / scale, MIN_NODE_WIDTH), MAX_NODE_WIDTH);
+             const height = Math.max(initialSize.height + dy / scale, MIN_NODE_HEIGHT);
+             dragRef.current.hasMoved = true;
+             setColumns(prev => prev.map(c => c.id !== targetId ? c : {
+                 ...c,
+                 width: initialSize.horizontal ? Math.round(width) : c.width,
+                 height: initialSize.vertical ? Math.round(height) : c.height
+             }));
         } else if (dragRef.current.type === 'node' && dragRef.current.targetId && dragRef.current.initialNodeOffset) {
              // Calculate delta in WORLD coordinates (account for scale)
              const worldDx = dx / scale;
@@ -421,12 +739,35 @@ const App: React.FC = () => {
                  y: dragRef.current.initialNodeOffset.y + worldDy
              };
              
+             dragRef.current.hasMoved = true;
              setNodeOffsets(prev => new Map(prev).set(dragRef.current!.targetId!, newOffset));
+
+             // Holding Alt turns the drag into moving the branch onto the reply under the cursor
+             const drag = dragRef.current;
+             const hit = e.altKey
+                 ? document.elementsFromPoint(e.clientX, e.clientY)
+                     .map(el => el.closest<HTMLElement>('[data-message-id]'))
+                     .find(el => el && el.dataset.columnId !== drag.targetId)
+                 : null;
+             const dropTarget = hit ? { columnId: hit.dataset.columnId!, messageId: hit.dataset.messageId! } : null;
+             if (dropTarget?.messageId !== drag.dropTarget?.messageId) {
+                 drag.dropTarget = dropTarget;
+                 setReattachHover(dropTarget ? { ...dropTarget, error: reattachDragRef.current.check(drag.targetId!, dropTarget) } : null);
+             }
         }
     };
     
     const handleMouseUp = () => {
+        const drag = dragRef.current;
+        if (drag?.dropTarget && drag.targetId && drag.undoEntry && !reattachDragRef.current.check(drag.targetId, drag.dropTarget)) {
+            reattachDragRef.current.drop(drag.targetId, drag.dropTarget, drag.undoEntry);
+        } else if (dragRef.current?.hasMoved && dragRef.current.undoEntry) {
+            const entry = dragRef.current.undoEntry;
+            setUndoStack(prev => pushUndoEntry(prev, entry));
+            setRedoStack([]);
+        }
         dragRef.current = null;
+        setReattachHover(null);
         if (viewportRef.current) viewportRef.current.style.cursor = 'grab';
     };
 
@@ -439,18 +780,23 @@ const App: React.FC = () => {
   }, [scale]);
 
   // --- Auto-Focus Logic ---
-  const focusNode = (nodeId: string) => {
+  // With an `anchor` inside the node, centers vertically on the anchor instead of the node's middle
+  const focusNode = (nodeId: string, anchor?: Element | null) => {
       const pos = layout.get(nodeId);
       if (pos && viewportRef.current) {
-          const offset = nodeOffsets.get(nodeId) || {x: 0, y: 0};
+          const offset = canvasOffsets.get(nodeId) || {x: 0, y: 0};
           const finalX = pos.x + offset.x;
-          const finalY = pos.y + offset.y;
+          let finalY = pos.y + offset.y;
+          if (anchor && contentRef.current) {
+              const anchorRect = anchor.getBoundingClientRect();
+              finalY = (anchorRect.top + anchorRect.height / 2 - contentRef.current.getBoundingClientRect().top) / scale;
+          }
 
           const viewportW = viewportRef.current.clientWidth;
           const viewportH = viewportRef.current.clientHeight;
           
           // Center the node
-          const targetX = (viewportW / 2) - (finalX * scale) - ((NODE_WIDTH / 2) * scale);
+          const targetX = (viewportW / 2) - (finalX * scale) - ((pos.width / 2) * scale);
           const targetY = (viewportH / 2) - (finalY * scale); 
           
           setPan({ x: targetX, y: targetY });
@@ -461,6 +807,8 @@ const App: React.FC = () => {
       if (hasStarted && columns.length > 0) {
           // Only auto-focus on initial load or creation, 
           // might want to be careful not to jump around if user is dragging
+          if (restoredCameraRef.current === selectedColumnId) return;
+          restoredCameraRef.current = null;
           if (!dragRef.current) {
               focusNode(selectedColumnId);
           }
@@ -471,11 +819,79 @@ const App: React.FC = () => {
   // --- Event Handlers (Business Logic) ---
   
   const handleToggleCollapse = (columnId: string) => {
+    const col = columns.find(c => c.id === columnId);
+    recordUndo(`${col?.isCollapsed ? 'Expand' : 'Collapse'} "${col?.title || 'column'}"`);
     setColumns(prev => prev.map(col => 
       col.id === columnId ? { ...col, isCollapsed: !col.isCollapsed } : col
     ));
   };
 
+  // --- Folding Subtrees ---
+  const descendantCounts = useMemo(() => countDescendants(canvasColumns), [canvasColumns]);
+  const foldedAwayIds = useMemo(() => getFoldedAwayIds(canvasColumns), [canvasColumns]);
+  const maxTreeDepth = useMemo(() => Math.max(0, ...getColumnDepths(canvasColumns).values()), [canvasColumns]);
+
+  // Selecting a folded-away column (a new branch, a search result, ...) unfolds its ancestors;
+  // folding away the selected column moves the selection up to the folded ancestor instead
+  const lastSelectedIdRef = useRef(selectedColumnId);
+  useEffect(() => {
+    const selectionChanged = lastSelectedIdRef.current !== selectedColumnId;
+    lastSelectedIdRef.current = selectedColumnId;
+    if (!foldedAwayIds.has(selectedColumnId)) return;
+    if (selectionChanged && !viewingSnapshot) {
+      setColumns(prev => revealColumn(prev, selectedColumnId));
+      return;
+    }
+    let column = canvasColumns.find(c => c.id === selectedColumnId);
+    while (column && foldedAwayIds.has(column.id)) {
+      column = canvasColumns.find(c => c.id === column!.parentId);
+    }
+    if (column) setSelectedColumnId(column.id);
+  }, [foldedAwayIds, selectedColumnId]);
+
+  const handleToggleFold = (columnId: string) => {
+    const col = columns.find(c => c.id === columnId);
+    recordUndo(`${col?.isFolded ? 'Unfold' : 'Fold'} "${col?.title || 'column'}"`);
+    setColumns(prev => prev.map(c => c.id === columnId ? { ...c, isFolded: !c.isFolded } : c));
+  };
+
+  const handleFoldBelowDepth = (depth: number) => {
+    recordUndo(`Fold below level ${depth}`);
+    setColumns(prev => foldBelowDepth(prev, depth));
+  };
+
+  const handleUnfoldAll = () => {
+    recordUndo('Unfold all');
+    setColumns(prev => unfoldAll(prev));
+  };
+
+  const handleRenameColumn = (columnId: string, title: string) => {
+    recordUndo(`Rename "${columns.find(c => c.id === columnId)?.title || 'column'}"`);
+    setColumns(prev => prev.map(col => col.id === columnId ? { ...col, title } : col));
+  };
+
+  // Sibling order on the canvas is the order of the columns array. Columns without a parent are the root
+  // and its timelines, which keep their places so the root stays first
+  const handleReorderColumn = (columnId: string, targetId: string, position: DropPosition) => {
+    const moving = columns.find(c => c.id === columnId);
+    const target = columns.find(c => c.id === targetId);
+    if (!moving?.parentId || !target || moving === target || moving.parentId !== target.parentId) return;
+    recordUndo(`Reorder "${moving.title || 'column'}"`);
+    setColumns(prev => {
+      const rest = prev.filter(c => c.id !== columnId);
+      const index = rest.findIndex(c => c.id === targetId);
+      if (index === -1) return prev;
+      rest.splice(position === 'before' ? index : index + 1, 0, moving);
+      return rest;
+    });
+  };
+
+  const handleSelectFromOutline = (columnId: string) => {
+    setSelectedColumnId(columnId);
+    // Selecting pans on its own, except when the column was already selected
+    if (columnId === selectedColumnId) focusNode(columnId);
+  };
+
   const addMessageToColumn = (columnId: string, message: Message) => {
     setColumns(prev => prev.map(col => {
       if (col.id === columnId) {
@@ -491,19 +907,27 @@ const App: React.FC = () => {
     }));
   };
 
-  const updateLastMessage = (columnId: string, textChunk: string) => {
+  const updateMessage = (columnId: string, messageId: string, updater: (message: Message) => Message) => {
+    setColumns(prev => prev.map(col => col.id === columnId
+      ? { ...col, messages: col.messages.map(m => m.id === messageId ? updater(m) : m) }
+      : col
+    ));
+  };
+
+  const appendToVariant = (columnId: string, messageId: string, variantId: string, textChunk: string) => {
+    updateMessage(columnId, messageId, m => patchVariant(m, variantId, v => ({ text: v.text + textChunk })));
+  };
+
+  const patchMessageVariant = (columnId: string, messageId: string, variantId: string, patch: Partial<MessageVariant>) => {
+    updateMessage(columnId, messageId, m => patchVariant(m, variantId, () => patch));
+  };
+
+  const cacheContextSummary = (columnId: string, key: string, summary: string) => {
     setColumns(prev => prev.map(col => {
-      if (col.id === columnId) {
-        const msgs = [...col.messages];
-        if (msgs.length > 0 && msgs[msgs.length - 1].role === 'model') {
-          msgs[msgs.length - 1] = {
-            ...msgs[msgs.length - 1],
-            text: msgs[msgs.length - 1].text + textChunk
-          };
-        }
-        return { ...col, messages: msgs };
-      }
-      return col;
+      if (col.id !== columnId) return col;
+      // Keep only the most recent few: each distinct branch point of a column has its own entry
+      const entries = Object.entries({ ...col.contextSummaries, [key]: summary }).slice(-MAX_CACHED_SUMMARIES);
+      return { ...col, contextSummaries: Object.fromEntries(entries) };
     }));
   };
 
@@ -513,6 +937,124 @@ const App: React.FC = () => {
     ));
   };
 
+  // --- Generation Lifecycle ---
+  // One controller per column: a column only ever streams a single reply at a time.
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // New branches wait here so a large fan-out doesn't hit the provider all at once
+  const maxConcurrentBranchesRef = useRef(providerSettings.maxConcurrentBranches);
+  maxConcurrentBranchesRef.current = providerSettings.maxConcurrentBranches;
+  const [branchQueue] = useState(() => createTaskQueue(() => maxConcurrentBranchesRef.current));
+
+  /**
+   * Streams a reply into a variant of an existing model message slot and records how it ended.
+   * `historyColumns` must not yet contain `prompt` as a message. Resolves with the outcome and the full reply.
+   */
+  const generateReply = (
+    columnId: string,
+    messageId: string,
+    prompt: string,
+    historyColumns: Column[],
+    variantId: string = messageId,
+    options?: GenerationOptions
+  ) => {
+    abortControllersRef.current.get(columnId)?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current.set(columnId, controller);
+    setThinking(columnId, true);
+
+    const columnSettings = historyColumns.find(c => c.id === columnId)?.settings;
+    let text = '';
+
+    return streamColumnResponse(
+      columnId,
+      prompt,
+      historyColumns,
+      providerSettings,
+      {
+        onChunk: (chunk) => {
+          text += chunk;
+          appendToVariant(columnId, messageId, variantId, chunk);
+        },
+        onUsage: (usage) => patchMessageVariant(columnId, messageId, variantId, { usage }),
+        onSummary: cacheContextSummary
+      },
+      controller.signal,
+      mergeModelSettings(columnSettings, options)
+    ).then(outcome => {
+      patchMessageVariant(columnId, messageId, variantId, { status: outcome.status, error: outcome.error });
+      return { ...outcome, text };
+    }).finally(() => {
+      if (abortControllersRef.current.get(columnId) === controller) {
+        abortControllersRef.current.delete(columnId);
+      }
+      setThinking(columnId, false);
+    });
+  };
+
+  const handleStopGeneration = (columnId: string) => {
+    if (branchQueue.cancel(columnId)) return;
+    abortControllersRef.current.get(columnId)?.abort();
+  };
+
+  /**
+   * Finds the prompt a model message answered and the tree as it was when that prompt was sent.
+   */
+  const getReplyContext = (columnId: string, messageId: string) => {
+    const col = columns.find(c => c.id === columnId);
+    if (!col || col.isThinking) return null;
+
+    const msgIndex = col.messages.findIndex(m => m.id === messageId);
+    let promptIndex = msgIndex - 1;
+    while (promptIndex >= 0 && col.messages[promptIndex].role !== 'user') promptIndex--;
+    if (msgIndex === -1 || promptIndex < 0) return null;
+
+    return {
+      message: col.messages[msgIndex],
+      prompt: col.messages[promptIndex].text,
+      historyColumns: columns.map(c => c.id === columnId
+        ? { ...c, messages: c.messages.slice(0, promptIndex) }
+        : c
+      )
+    };
+  };
+
+  const handleRetry = (columnId: string, messageId: string) => {
+    const context = getReplyContext(columnId, messageId);
+    if (!context) return;
+
+    const variantId = getActiveVariantId(context.message);
+    const variant = getVariants(context.message).find(v => v.id === variantId);
+    patchMessageVariant(columnId, messageId, variantId, { text: '', status: 'streaming', error: undefined, usage: undefined });
+    generateReply(columnId, messageId, context.prompt, context.historyColumns, variantId, {
+      model: variant?.model,
+      temperature: variant?.temperature
+    });
+  };
+
+  const handleRegenerate = (columnId: string, messageId: string, options?: GenerationOptions) => {
+    const context = getReplyContext(columnId, messageId);
+    if (!context) return;
+
+    const variantId = uuidv4();
+    updateMessage(columnId, messageId, m => addVariant(m, {
+      id: variantId,
+      text: '',
+      timestamp: Date.now(),
+      status: 'streaming',
+      model: options?.model,
+      temperature: options?.temperature
+    }));
+    generateReply(columnId, messageId, context.prompt, context.historyColumns, variantId, options);
+  };
+
+  const handleUpdateColumnSettings = (columnId: string, settings: ModelSettings | undefined) => {
+    setColumns(prev => prev.map(col => col.id === columnId ? { ...col, settings } : col));
+  };
+
+  const handleSelectVariant = (columnId: string, messageId: string, variantId: string) => {
+    updateMessage(columnId, messageId, m => selectVariant(m, variantId));
+  };
+
   const handleGlobalSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!globalInput.trim() || !selectedColumnId) return;
@@ -535,7 +1077,7 @@ const App: React.FC = () => {
       
       // Auto expand if user types into a collapsed node
       if (targetCol.isCollapsed) {
-          handleToggleCollapse(selectedColumnId);
+          setColumns(prev => prev.map(col => col.id === selectedColumnId ? { ...col, isCollapsed: false } : col));
       }
 
       const modelMsgId = uuidv4();
@@ -543,82 +1085,545 @@ const App: React.FC = () => {
         id: modelMsgId,
         role: 'model',
         text: '',
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        status: 'streaming'
       };
       
       setTimeout(() => {
           addMessageToColumn(selectedColumnId, modelMsg);
-          streamGeminiResponse(
-            selectedColumnId,
-            text,
-            columns,
-            (chunk) => updateLastMessage(selectedColumnId, chunk)
-          ).finally(() => {
-            setThinking(selectedColumnId, false);
-          });
+          generateReply(selectedColumnId, modelMsgId, text, columns);
       }, 100);
   };
 
-  const handleBranch = (sourceColumnId: string, sourceMessageId: string, selectedText: string, customPrompt?: string) => {
+  /**
+   * Creates one sibling branch per choice from the same selection. Several choices form a
+   * cluster that shares one highlight and streams through the branch queue.
+   */
+  const handleFanOut = (sourceColumnId: string, sourceMessageId: string, selectedText: string, choices: BranchChoice[], anchor?: TextQuoteSelector) => {
+    if (choices.length === 0) return;
+    const sourceColumn = columns.find(c => c.id === sourceColumnId);
+    const sourceMessage = sourceColumn?.messages.find(m => m.id === sourceMessageId);
+    const snippetTitle = selectedText.substring(0, 20) + '...';
+    const clusterId = choices.length > 1 ? uuidv4() : undefined;
+
+    const branches = choices.map(({ action, customPrompt }) => {
+      const column: Column = {
+        id: uuidv4(),
+        title: customPrompt || (action ? `${action.label}: ${snippetTitle}` : snippetTitle),
+        parentId: sourceColumnId,
+        parentMessageId: sourceMessageId,
+        parentVariantId: sourceMessage ? getActiveVariantId(sourceMessage) : undefined,
+        clusterId,
+        settings: action?.settings ? mergeModelSettings(sourceColumn?.settings, action.settings) : sourceColumn?.settings,
+        contextSnippet: selectedText,
+        sourceAnchor: anchor,
+        messages: [],
+        inputValue: '',
+        isThinking: false,
+        isCollapsed: false
+      };
+      const prompt = customPrompt
+        || (action && renderBranchPrompt(action.template, { selection: selectedText, message: sourceMessage?.text ?? '' }))
+        || `Tell me more about "${selectedText}" in the context of our previous conversation.`;
+      return { column, prompt };
+    });
+    const newColumns = branches.map(b => b.column);
+
+    recordUndo(newColumns.length > 1 ? `Create ${newColumns.length} branches` : `Create "${newColumns[0].title}"`);
+    setColumns(prev => [...prev, ...newColumns]);
+    setSelectedColumnId(newColumns[0].id);
+
+    // Auto-send first message
+    setTimeout(() => {
+        branches.forEach(({ column, prompt }) => {
+            addMessageToColumn(column.id, { id: uuidv4(), role: 'user', text: prompt, timestamp: Date.now() });
+            setThinking(column.id, true);
+        });
+
+        setTimeout(() => {
+            branches.forEach(({ column, prompt }) => {
+                const modelMsgId = uuidv4();
+                addMessageToColumn(column.id, {
+                    id: modelMsgId,
+                    role: 'model',
+                    text: '',
+                    timestamp: Date.now(),
+                    status: 'streaming'
+                });
+                branchQueue.run(
+                    column.id,
+                    () => generateReply(column.id, modelMsgId, prompt, [...columns, ...newColumns]),
+                    () => {
+                        patchMessageVariant(column.id, modelMsgId, modelMsgId, { status: 'cancelled' });
+                        setThinking(column.id, false);
+                    }
+                );
+            });
+        }, 100);
+    }, 100);
+  };
+
+  const handleBranch = (sourceColumnId: string, sourceMessageId: string, selectedText: string, customPrompt?: string, action?: BranchAction, anchor?: TextQuoteSelector) => {
+    handleFanOut(sourceColumnId, sourceMessageId, selectedText, [{ customPrompt, action }], anchor);
+  };
+
+  // --- Synthesis ---
+  // Columns picked with Shift/Ctrl+click to be merged into one synthesis column
+  const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+
+  const handleToggleMergeSelect = (columnId: string) => {
+    setMergeSelection(prev => prev.includes(columnId) ? prev.filter(id => id !== columnId) : [...prev, columnId]);
+  };
+
+  const handleSynthesize = (mode: SynthesisMode) => {
+    const sources = mergeSelection
+      .map(id => columns.find(c => c.id === id))
+      .filter((c): c is Column => !!c);
+    if (sources.length < 2) return;
+
+    const { label, prompt } = getSynthesisMode(mode);
     const newColId = uuidv4();
     const newColumn: Column = {
       id: newColId,
-      title: customPrompt || selectedText.substring(0, 20) + '...',
-      parentId: sourceColumnId,
-      parentMessageId: sourceMessageId,
-      contextSnippet: selectedText,
+      title: `${label}: ${sources.map(c => c.title).join(' + ')}`,
+      parentId: sources[0].id,
+      parentMessageId: null,
+      mergedFrom: sources.map(c => c.id),
+      settings: sources[0].settings,
+      contextSnippet: null,
       messages: [],
       inputValue: '',
       isThinking: false,
       isCollapsed: false
     };
 
+    recordUndo(`Create "${newColumn.title}"`);
     setColumns(prev => [...prev, newColumn]);
     setSelectedColumnId(newColId);
+    setMergeSelection([]);
 
-    const initialPrompt = customPrompt || `Tell me more about "${selectedText}" in the context of our previous conversation.`;
-    
-    // Auto-send first message
     setTimeout(() => {
-        const userMsg: Message = {
-            id: uuidv4(),
-            role: 'user',
-            text: initialPrompt,
-            timestamp: Date.now()
-        };
-        addMessageToColumn(newColId, userMsg);
+        addMessageToColumn(newColId, { id: uuidv4(), role: 'user', text: prompt, timestamp: Date.now() });
         setThinking(newColId, true);
-        
+
         const modelMsgId = uuidv4();
-        const modelMsg: Message = {
-            id: modelMsgId,
-            role: 'model',
-            text: '',
-            timestamp: Date.now()
-        };
-        
         setTimeout(() => {
-            addMessageToColumn(newColId, modelMsg);
-            streamGeminiResponse(
-                newColId,
-                initialPrompt,
-                [...columns, newColumn], 
-                (chunk) => updateLastMessage(newColId, chunk)
-            ).finally(() => {
-                setThinking(newColId, false);
+            addMessageToColumn(newColId, {
+                id: modelMsgId,
+                role: 'model',
+                text: '',
+                timestamp: Date.now(),
+                status: 'streaming'
             });
+            generateReply(newColId, modelMsgId, prompt, [...columns, newColumn]);
         }, 100);
     }, 100);
   };
 
+  /**
+   * Editing a user message never rewrites history: it forks a sibling column with the
+   * same lineage, replays everything before the edited message and re-runs from there.
+   */
+  const handleEditMessage = (columnId: string, messageId: string, newText: string) => {
+    const source = columns.find(c => c.id === columnId);
+    if (!source || !newText.trim()) return;
+    const msgIndex = source.messages.findIndex(m => m.id === messageId);
+    if (msgIndex === -1) return;
+
+    const timelineOf = source.timelineOf ?? source.id;
+    const newColId = uuidv4();
+    const fork: Column = {
+      ...source,
+      id: newColId,
+      timelineOf,
+      messages: source.messages.slice(0, msgIndex).map(m => ({ ...m, id: uuidv4() })),
+      inputValue: '',
+      isThinking: false,
+      isCollapsed: false,
+      // The fork is a new timeline: not part of the original's fan-out, not moved, and with no branches to fold yet
+      isFolded: false,
+      clusterId: undefined,
+      reattachedAt: undefined
+    };
+
+    const userMsg: Message = {
+      id: uuidv4(),
+      role: 'user',
+      text: newText,
+      timestamp: Date.now()
+    };
+    const modelMsgId = uuidv4();
+    const modelMsg: Message = {
+      id: modelMsgId,
+      role: 'model',
+      text: '',
+      timestamp: Date.now(),
+      status: 'streaming'
+    };
+
+    const historyColumns = [...columns, fork];
+    recordUndo('Edit message');
+    setColumns(prev => {
+      // Place the fork right after the last existing timeline of this node so they stack together
+      const insertAfter = prev.reduce((last, c, i) => (c.id === timelineOf || c.timelineOf === timelineOf) ? i : last, prev.length - 1);
+      const next = [...prev];
+      next.splice(insertAfter + 1, 0, { ...fork, messages: [...fork.messages, userMsg, modelMsg] });
+      return next;
+    });
+    setSelectedColumnId(newColId);
+    generateReply(newColId, modelMsgId, newText, historyColumns);
+  };
+
+  // --- Context Budget ---
+  // Plans are kept per column and only redone when a column they read from changed,
+  // so streaming into one column doesn't re-plan the whole tree on every chunk
+  const contextUsageCacheRef = useRef(new Map<string, { inputs: Column[]; settings: ProviderSettings; usage: ContextUsage }>());
+  const contextUsage = useMemo(() => {
+    const usage = new Map<string, ContextUsage>();
+    if (!hasStarted) return usage;
+    const byId = new Map(columns.map(col => [col.id, col]));
+    const previous = contextUsageCacheRef.current;
+    const next = new Map<string, { inputs: Column[]; settings: ProviderSettings; usage: ContextUsage }>();
+    columns.forEach(col => {
+      const inputs = getContextColumns(col.id, byId);
+      const cached = previous.get(col.id);
+      if (cached && cached.settings === providerSettings && cached.inputs.length === inputs.length && cached.inputs.every((c, i) => c === inputs[i])) {
+        next.set(col.id, cached);
+        usage.set(col.id, cached.usage);
+        return;
+      }
+      const plan = planColumnContext(col.id, '', columns, providerSettings, col.settings);
+      const columnUsage = { tokens: plan.plannedTokens, rawTokens: plan.rawTokens, budget: plan.budget };
+      next.set(col.id, { inputs, settings: providerSettings, usage: columnUsage });
+      usage.set(col.id, columnUsage);
+    });
+    contextUsageCacheRef.current = next;
+    return usage;
+  }, [columns, providerSettings, hasStarted]);
+
+  const [contextPreviewColumnId, setContextPreviewColumnId] = useState<string | null>(null);
+  const [isPreparingContext, setIsPreparingContext] = useState(false);
+  const [contextPreviewError, setContextPreviewError] = useState<string | null>(null);
+
+  const contextPreviewColumn = columns.find(c => c.id === contextPreviewColumnId) || null;
+  const contextPreviewMessage = contextPreviewColumnId === selectedColumnId ? globalInput : '';
+
+  const handleOpenContextPreview = (columnId: string) => {
+    setContextPreviewError(null);
+    setContextPreviewColumnId(columnId);
+  };
+
+  const handlePrepareContext = async () => {
+    if (!contextPreviewColumn) return;
+    setIsPreparingContext(true);
+    setContextPreviewError(null);
+    try {
+      await prepareColumnContext(
+        contextPreviewColumn.id,
+        contextPreviewMessage,
+        columns,
+        providerSettings,
+        cacheContextSummary,
+        contextPreviewColumn.settings
+      );
+    } catch (error) {
+      setContextPreviewError(`Could not generate summaries: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsPreparingContext(false);
+    }
+  };
+
+  // Alternate timelines (forks from message edits) grouped by the column they fork
+  const timelines = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    canvasColumns.forEach(c => {
+      const key = c.timelineOf ?? c.id;
+      groups.set(key, [...(groups.get(key) || []), c.id]);
+    });
+    const result = new Map<string, { index: number; ids: string[] }>();
+    groups.forEach(ids => {
+      if (ids.length < 2) return;
+      ids.forEach((id, index) => result.set(id, { index, ids }));
+    });
+    return result;
+  }, [canvasColumns]);
+
+  // --- Undo / Redo ---
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  // Offers "Undo" right after a destructive action
+  const [undoToast, setUndoToast] = useState<{ id: string; message: string } | null>(null);
+
+  const createUndoEntry = (label: string): UndoEntry => ({ label, columns, nodeOffsets, selectedColumnId });
+
+  const recordUndo = (label: string) => {
+    setUndoStack(prev => pushUndoEntry(prev, createUndoEntry(label)));
+    setRedoStack([]);
+    setUndoToast(null);
+  };
+
+  const resetUndoHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+    setUndoToast(null);
+  };
+
+  // Swaps the canvas for `entry` and returns the entry that brings the current canvas back
+  const applyUndoEntry = (entry: UndoEntry): UndoEntry => {
+    const inverse = { ...createUndoEntry(entry.label), restoresContent: entry.restoresContent };
+    const restored = restoreColumns(entry.columns, columns, entry.restoresContent);
+    const restoredIds = new Set(restored.map(c => c.id));
+    columns.forEach(col => {
+      if (restoredIds.has(col.id) && !entry.restoresContent) return;
+      branchQueue.cancel(col.id);
+      abortControllersRef.current.get(col.id)?.abort();
+    });
+    setColumns(restored);
+    setNodeOffsets(entry.nodeOffsets);
+    setMergeSelection(prev => prev.filter(id => restoredIds.has(id)));
+    setSelectedColumnId(restoredIds.has(entry.selectedColumnId) ? entry.selectedColumnId : restored[0].id);
+    setUndoToast(null);
+    return inverse;
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || viewingSnapshot) return;
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack(prev => [...prev, applyUndoEntry(entry)]);
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || viewingSnapshot) return;
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack(prev => pushUndoEntry(prev, applyUndoEntry(entry)));
+  };
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // --- Snapshots ---
+  const [snapshots, setSnapshots] = useState<StoredSnapshot[]>([]);
+
+  useEffect(() => {
+    setViewingSnapshot(null);
+    setCanvasComparison(null);
+    setSnapshots([]);
+    if (!hasStarted) return;
+    let cancelled = false;
+    listSnapshots(sessionId)
+      .then(list => { if (!cancelled) setSnapshots(list); })
+      .catch(error => console.error("Failed to list snapshots:", error));
+    return () => { cancelled = true; };
+  }, [sessionId, hasStarted]);
+
+  const handleCreateSnapshot = async (name: string) => {
+    const snapshot: StoredSnapshot = {
+      id: uuidv4(),
+      sessionId,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      name,
+      createdAt: Date.now(),
+      columns,
+      nodeOffsets: Array.from(nodeOffsets.entries())
+    };
+    setSnapshots(prev => [...prev, snapshot]);
+    try {
+      // The session record has to exist for its snapshots to be listed again after a reload
+      await flushSave();
+      await saveSnapshot(snapshot);
+    } catch (error) {
+      console.error("Failed to save snapshot:", error);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+      window.alert(`Could not save the snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+    if (viewingSnapshot?.id === id) setViewingSnapshot(null);
+    deleteSnapshot(id).catch(error => console.error("Failed to delete snapshot:", error));
+  };
+
+  const handleViewSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+    setViewingSnapshot(snapshot);
+    setCanvasComparison(null);
+    setIsSnapshotPanelOpen(false);
+  };
+
+  const handleRestoreSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+    // Goes through the undo stack, so restoring an old state never loses the current one
+    const inverse = applyUndoEntry({
+      label: `Restore "${snapshot.name}"`,
+      columns: snapshot.columns,
+      nodeOffsets: new Map(snapshot.nodeOffsets),
+      selectedColumnId: snapshot.columns.some(c => c.id === selectedColumnId) ? selectedColumnId : snapshot.columns[0].id,
+      restoresContent: true
+    });
+    setUndoStack(prev => pushUndoEntry(prev, inverse));
+    setRedoStack([]);
+    setViewingSnapshot(null);
+    setCanvasComparison(null);
+    setIsSnapshotPanelOpen(false);
+  };
+
+  const handleHighlightDiff = (fromId: string, toId: string) => {
+    const getState = (id: string) => id === CURRENT_CANVAS ? { name: 'now', columns } : snapshots.find(s => s.id === id);
+    const from = getState(fromId);
+    const to = getState(toId);
+    if (!from || !to) return;
+    const diff = diffTrees(from.columns, to.columns);
+    setViewingSnapshot(toId === CURRENT_CANVAS ? null : snapshots.find(s => s.id === toId) ?? null);
+    setCanvasComparison({
+      label: fromId === CURRENT_CANVAS ? `"${to.name}" compared with now` : `Changes since "${from.name}"${toId === CURRENT_CANVAS ? '' : ` up to "${to.name}"`}`,
+      summary: summarizeDiff(diff),
+      marks: getCanvasDiffMarks(diff)
+    });
+    setIsSnapshotPanelOpen(false);
+  };
+
+  // --- Search ---
+  const focusNodeRef = useRef(focusNode);
+  focusNodeRef.current = focusNode;
+
+  const handleJumpToSearchResult = (result: SearchResult, query: string) => {
+    setIsSearchOpen(false);
+    const target = columns.find(c => c.id === result.columnId);
+    if (target?.isCollapsed) {
+      setColumns(prev => prev.map(c => c.id === result.columnId ? { ...c, isCollapsed: false } : c));
+    }
+    setSelectedColumnId(result.columnId);
+    setSearchHit({ columnId: result.columnId, messageId: result.messageId, query, terms: getSearchTerms(query) });
+  };
+
+  useEffect(() => {
+    if (!searchHit) return;
+    // Wait for an expanded column to render and be measured before centering on the match
+    const timer = setTimeout(() => {
+      const mark = document.querySelector(`#column-${CSS.escape(searchHit.columnId)} mark.search-highlight`);
+      focusNodeRef.current(searchHit.columnId, mark);
+    }, SEARCH_FOCUS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchHit]);
+
+  useEffect(() => {
+    if (searchHit && searchHit.columnId !== selectedColumnId) setSearchHit(null);
+  }, [selectedColumnId, searchHit]);
+
+  // --- Reattaching Branches ---
+  const [movingColumnId, setMovingColumnId] = useState<string | null>(null); // Column the "Move to…" dialog is open for
+  // Reply a branch is being Alt-dragged onto, and why it can't go there if so
+  const [reattachHover, setReattachHover] = useState<{ columnId: string; messageId: string; error: string | null } | null>(null);
+
+  // `undoEntry` is passed by header drags, which record the canvas from before the card started moving
+  const handleReattachColumn = (columnId: string, target: ReattachTarget, undoEntry?: UndoEntry) => {
+    if (getReattachError(columns, columnId, target.parentId, target.parentMessageId)) return;
+    const column = columns.find(c => c.id === columnId);
+    const parent = columns.find(c => c.id === target.parentId);
+    const label = `Move "${column?.title || 'column'}" under "${parent?.title || 'column'}"`;
+    if (undoEntry) {
+      setUndoStack(prev => pushUndoEntry(prev, { ...undoEntry, label }));
+      setRedoStack([]);
+      setUndoToast(null);
+    } else {
+      recordUndo(label);
+    }
+
+    // Manual offsets were relative to the old spot
+    const group = getBranchGroupIds(columns, columnId);
+    setNodeOffsets(prev => {
+      const next = new Map(prev);
+      group.forEach(id => next.delete(id));
+      return next;
+    });
+    setColumns(prev => reattachColumn(prev, columnId, target));
+    setMovingColumnId(null);
+    setSelectedColumnId(columnId);
+  };
+
+  const handleDismissReattached = (columnId: string) => {
+    setColumns(prev => prev.map(col => col.id === columnId ? { ...col, reattachedAt: undefined } : col));
+  };
+
+  /**
+   * Regenerates every reply of a column in order, each seeing the new replies before it.
+   * Old replies stay available as variants. Stops at the first reply that doesn't finish.
+   */
+  const handleRerunColumn = async (columnId: string) => {
+    const column = columns.find(c => c.id === columnId);
+    if (!column || column.isThinking) return;
+    handleDismissReattached(columnId);
+
+    let messages = column.messages;
+    for (let index = 0; index < messages.length; index++) {
+      const msg = messages[index];
+      if (msg.role !== 'model') continue;
+      let promptIndex = index - 1;
+      while (promptIndex >= 0 && messages[promptIndex].role !== 'user') promptIndex--;
+      if (promptIndex < 0) continue;
+
+      const variantId = uuidv4();
+      updateMessage(columnId, msg.id, m => addVariant(m, { id: variantId, text: '', timestamp: Date.now(), status: 'streaming' }));
+      const historyColumns = columns.map(c => c.id === columnId ? { ...c, messages: messages.slice(0, promptIndex) } : c);
+      const result = await generateReply(columnId, msg.id, messages[promptIndex].text, historyColumns, variantId);
+      if (result.status !== 'done') return;
+      messages = messages.map(m => m.id === msg.id ? { ...m, text: result.text } : m);
+    }
+  };
+
+  // Header drags keep the snippet only if the new reply contains it
+  const handleDropOnReply = (columnId: string, reply: { columnId: string; messageId: string }, undoEntry: UndoEntry) => {
+    const snippet = columns.find(c => c.id === columnId)?.contextSnippet;
+    const replyText = columns.find(c => c.id === reply.columnId)?.messages.find(m => m.id === reply.messageId)?.text ?? '';
+    handleReattachColumn(columnId, {
+      parentId: reply.columnId,
+      parentMessageId: reply.messageId,
+      contextSnippet: snippet && replyText.includes(snippet) ? snippet : null
+    }, undoEntry);
+  };
+
+  // The drag listeners are registered once, so they reach the current tree through this ref
+  const reattachDragRef = useRef({ check: (columnId: string, reply: { columnId: string; messageId: string }): string | null => null, drop: handleDropOnReply });
+  reattachDragRef.current = {
+    check: (columnId, reply) => getReattachError(columns, columnId, reply.columnId, reply.messageId),
+    drop: handleDropOnReply
+  };
+
   const handleCloseColumn = (columnId: string) => {
     const getDescendants = (id: string): string[] => {
         const children = columns.filter(c => c.parentId === id);
         return [id, ...children.flatMap(c => getDescendants(c.id))];
     };
     const toDelete = new Set(getDescendants(columnId));
+    const closedTitle = columns.find(c => c.id === columnId)?.title || 'column';
+    recordUndo(`Close "${closedTitle}"`);
+    setUndoToast({
+      id: uuidv4(),
+      message: toDelete.size > 1
+        ? `Closed "${closedTitle}" and ${toDelete.size - 1} ${toDelete.size === 2 ? 'branch' : 'branches'} below it`
+        : `Closed "${closedTitle}"`
+    });
+    setMergeSelection(prev => prev.filter(id => !toDelete.has(id)));
+    toDelete.forEach(id => {
+        branchQueue.cancel(id);
+        abortControllersRef.current.get(id)?.abort();
+    });
     
-    setColumns(prev => prev.filter(c => !toDelete.has(c.id)));
+    // Synthesis columns outlive secondary sources; they just stop drawing from them
+    setColumns(prev => prev
+      .filter(c => !toDelete.has(c.id))
+      .map(c => c.mergedFrom?.some(id => toDelete.has(id))
+        ? { ...c, mergedFrom: c.mergedFrom.filter(id => !toDelete.has(id)) }
+        : c
+      ));
     
     // Cleanup heights & offsets
     setNodeHeights(prev => {
@@ -641,10 +1646,114 @@ const App: React.FC = () => {
         }
     }
   };
+
+  // --- Keyboard ---
+  const globalInputRef = useRef<HTMLInputElement>(null);
+  const movedCount = Array.from(canvasOffsets.values()).filter(offset => offset.x !== 0 || offset.y !== 0).length;
+  const isDialogOpen = isSettingsOpen || isActionsPanelOpen || isExportOpen || isImportOpen || !!imageSnapshot || isSnapshotPanelOpen
+    || isSearchOpen || !!movingColumnId || !!contextPreviewColumnId || isCommandPaletteOpen || isShortcutsPanelOpen;
+
+  const handleSelectAdjacent = (direction: NavigationDirection) => {
+    const targetId = getAdjacentColumnId(canvasColumns, selectedColumnId, direction, id => layout.has(id));
+    if (targetId) setSelectedColumnId(targetId);
+  };
+
+  // Fits every card into the viewport, without zooming in past 100%
+  const handleZoomToFit = () => {
+    if (!viewportRef.current || layout.size === 0) return;
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    layout.forEach((pos, id) => {
+      const offset = canvasOffsets.get(id) || {x: 0, y: 0};
+      minX = Math.min(minX, pos.x + offset.x);
+      maxX = Math.max(maxX, pos.x + offset.x + pos.width);
+      minY = Math.min(minY, pos.y + offset.y - pos.height / 2);
+      maxY = Math.max(maxY, pos.y + offset.y + pos.height / 2);
+    });
+    const viewportW = viewportRef.current.clientWidth;
+    const viewportH = viewportRef.current.clientHeight;
+    const fitScale = Math.min((viewportW - FIT_MARGIN * 2) / (maxX - minX), (viewportH - FIT_MARGIN * 2) / (maxY - minY));
+    const newScale = Math.min(1, Math.max(0.1, fitScale));
+    setScale(newScale);
+    setPan({ x: viewportW / 2 - ((minX + maxX) / 2) * newScale, y: viewportH / 2 - ((minY + maxY) / 2) * newScale });
+  };
+
+  // Commands missing from the map can't run right now; they are left out of the palette and their shortcuts do nothing
+  const selectedColumn = canvasColumns.find(c => c.id === selectedColumnId);
+  const commandHandlers: Partial<Record<CommandId, () => void>> = {
+    selectParent: () => handleSelectAdjacent('parent'),
+    selectFirstChild: () => handleSelectAdjacent('firstChild'),
+    selectPreviousSibling: () => handleSelectAdjacent('previousSibling'),
+    selectNextSibling: () => handleSelectAdjacent('nextSibling'),
+    zoomIn: () => zoomAtCenter(-KEYBOARD_ZOOM_STEP),
+    zoomOut: () => zoomAtCenter(KEYBOARD_ZOOM_STEP),
+    zoomToFit: handleZoomToFit,
+    toggleOutline: () => setIsOutlineOpen(open => !open),
+    snapshots: () => setIsSnapshotPanelOpen(true),
+    export: () => setIsExportOpen(true),
+    import: () => setIsImportOpen(true),
+    branchActions: () => setIsActionsPanelOpen(true),
+    settings: () => setIsSettingsOpen(true),
+    home: handleGoHome,
+    commandPalette: () => setIsCommandPaletteOpen(true),
+    showShortcuts: () => setIsShortcutsPanelOpen(true)
+  };
+  LAYOUT_MODES.forEach(mode => {
+    if (mode.id !== layoutMode) commandHandlers[`layout.${mode.id}`] = () => handleChangeLayoutMode(mode.id);
+  });
+  // A snapshot on the canvas is read-only
+  if (!viewingSnapshot) {
+    commandHandlers.focusInput = () => globalInputRef.current?.focus();
+    commandHandlers.search = () => setIsSearchOpen(true);
+    if (undoStack.length > 0) commandHandlers.undo = handleUndo;
+    if (redoStack.length > 0) commandHandlers.redo = handleRedo;
+    if (movedCount > 0) commandHandlers.autoArrange = () => handleAutoArrange(false);
+    if (columns.some(c => c.isFolded)) commandHandlers.unfoldAll = handleUnfoldAll;
+    if (selectedColumn) {
+      commandHandlers.toggleCollapse = () => handleToggleCollapse(selectedColumn.id);
+      if (selectedColumn.isFolded || descendantCounts.get(selectedColumn.id)) commandHandlers.toggleFold = () => handleToggleFold(selectedColumn.id);
+      if (selectedColumn.parentId || selectedColumn.timelineOf) commandHandlers.closeBranch = () => handleCloseColumn(selectedColumn.id);
+    }
+  }
+
+  const paletteCommands: PaletteCommand[] = COMMANDS
+    .filter(command => command.id !== 'commandPalette' && commandHandlers[command.id])
+    .map(command => ({ ...command, shortcuts: getCommandShortcuts(shortcutBindings, command) }));
+
+  const handleRunCommand = (id: CommandId) => {
+    setIsCommandPaletteOpen(false);
+    commandHandlers[id]?.();
+  };
+
+  const commandShortcutsRef = useRef({ bindings: shortcutBindings, handlers: commandHandlers, branchActions, isDialogOpen });
+  commandShortcutsRef.current = { bindings: shortcutBindings, handlers: commandHandlers, branchActions, isDialogOpen };
+
+  useEffect(() => {
+    if (!hasStarted) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const { bindings, handlers, branchActions, isDialogOpen } = commandShortcutsRef.current;
+      if (isDialogOpen || e.defaultPrevented) return;
+      const pressed = shortcutFromEvent(e);
+      const command = findCommandForShortcut(bindings, pressed);
+      const run = command && handlers[command.id];
+      if (!run || (e.repeat && !command.repeats)) return;
+      // Text fields keep their own keys, including their own undo
+      const target = e.target as HTMLElement;
+      if (!command.inTextFields && target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // While text is selected, the selection tooltip's action shortcuts come first, and nothing gets closed
+      const hasTextSelection = !window.getSelection()?.isCollapsed;
+      if (hasTextSelection && (command.id === 'closeBranch' || branchActions.some(a => a.shortcut && normalizeShortcut(a.shortcut) === pressed))) return;
+      e.preventDefault();
+      run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasStarted]);
   
   const startSession = (e: React.FormEvent) => {
       e.preventDefault();
       if (!landingInput.trim()) return;
+      setSessionName(landingInput.length > 60 ? landingInput.substring(0, 60) + '...' : landingInput);
+      sessionCreatedAt.current = Date.now();
       setHasStarted(true);
       setPan({ x: 0, y: 0 }); // Center root initially
       
@@ -664,28 +1773,141 @@ const App: React.FC = () => {
           id: modelMsgId,
           role: 'model',
           text: '',
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          status: 'streaming'
       };
       
       setTimeout(() => {
           addMessageToColumn(rootId, modelMsg);
-          streamGeminiResponse(
-              rootId,
-              landingInput,
-              columns,
-              (chunk) => updateLastMessage(rootId, chunk)
-          ).finally(() => {
-              setThinking(rootId, false);
-          });
+          generateReply(rootId, modelMsgId, landingInput, columns);
       }, 100);
   };
 
   return (
     <div className="flex flex-col h-screen w-screen bg-gray-950 text-gray-100 font-sans overflow-hidden">
+      {contextPreviewColumn && (
+          <ContextPreview
+              title={contextPreviewColumn.title}
+              plan={planColumnContext(contextPreviewColumn.id, contextPreviewMessage, columns, providerSettings, contextPreviewColumn.settings)}
+              systemPrompt={contextPreviewColumn.settings?.systemPrompt}
+              pendingMessage={contextPreviewMessage}
+              isPreparing={isPreparingContext}
+              error={contextPreviewError}
+              onGenerateSummaries={handlePrepareContext}
+              onClose={() => setContextPreviewColumnId(null)}
+          />
+      )}
+      {isExportOpen && (
+          <ExportDialog
+              columns={columns}
+              columnId={selectedColumnId}
+              documentTitle={sessionName || columns[0]?.title || 'DeepDive'}
+              onExportCanvas={handleExportCanvas}
+              onExportImage={handleOpenImageExport}
+              onClose={() => setIsExportOpen(false)}
+          />
+      )}
+      {imageSnapshot && (
+          <ImageExportDialog
+              snapshot={imageSnapshot}
+              documentTitle={sessionName || columns[0]?.title || 'DeepDive'}
+              onClose={() => setImageSnapshot(null)}
+          />
+      )}
+      {hasStarted && isOutlineOpen && (
+          <OutlineSidebar
+              columns={canvasColumns}
+              selectedColumnId={selectedColumnId}
+              readOnly={!!viewingSnapshot}
+              onSelect={handleSelectFromOutline}
+              onRename={handleRenameColumn}
+              onReorder={handleReorderColumn}
+              onClose={() => setIsOutlineOpen(false)}
+          />
+      )}
+      {movingColumnId && (
+          <MoveBranchDialog
+              columns={columns}
+              columnId={movingColumnId}
+              onMove={handleReattachColumn}
+              onClose={() => setMovingColumnId(null)}
+          />
+      )}
+      {isSearchOpen && (
+          <SearchPalette
+              columns={columns}
+              selectedColumnId={selectedColumnId}
+              initialQuery={searchHit?.query}
+              onJump={handleJumpToSearchResult}
+              onClose={() => setIsSearchOpen(false)}
+          />
+      )}
+      {isCommandPaletteOpen && (
+          <CommandPalette
+              commands={paletteCommands}
+              onRun={handleRunCommand}
+              onClose={() => setIsCommandPaletteOpen(false)}
+          />
+      )}
+      {isShortcutsPanelOpen && (
+          <ShortcutsPanel
+              bindings={shortcutBindings}
+              onSave={handleSaveShortcuts}
+              onClose={() => setIsShortcutsPanelOpen(false)}
+          />
+      )}
+      {isSnapshotPanelOpen && (
+          <SnapshotPanel
+              snapshots={snapshots}
+              liveColumns={columns}
+              onCreate={handleCreateSnapshot}
+              onView={handleViewSnapshot}
+              onRestore={handleRestoreSnapshot}
+              onDelete={handleDeleteSnapshot}
+              onHighlightDiff={handleHighlightDiff}
+              onClose={() => setIsSnapshotPanelOpen(false)}
+          />
+      )}
+      {isImportOpen && (
+          <ImportDialog
+              targetColumn={hasStarted ? columns.find(c => c.id === selectedColumnId) : undefined}
+              onOpenAsSession={handleOpenCanvasFile}
+              onGraft={handleGraftCanvasFile}
+              onClose={() => setIsImportOpen(false)}
+          />
+      )}
+      {isActionsPanelOpen && (
+          <BranchActionsPanel
+              actions={branchActions}
+              onSave={handleSaveBranchActions}
+              onClose={() => setIsActionsPanelOpen(false)}
+          />
+      )}
+      {isSettingsOpen && (
+          <SettingsPanel
+              settings={providerSettings}
+              onSave={handleSaveSettings}
+              onClose={() => setIsSettingsOpen(false)}
+          />
+      )}
       
       {/* LANDING VIEW */}
       {!hasStarted ? (
-          <div className="flex flex-col items-center justify-center h-full w-full p-4 animate-in fade-in duration-700 bg-dot-pattern">
+          <div className="relative flex flex-col items-center justify-center h-full w-full p-4 animate-in fade-in duration-700 bg-dot-pattern">
+             <div className="absolute top-6 right-6 flex gap-2">
+                <button
+                   onClick={() => setIsImportOpen(true)}
+                   className="text-xs text-gray-500 hover:text-white bg-gray-900/80 border border-gray-800 hover:border-gray-600 rounded-md px-3 py-1.5 transition-colors"
+                >
+                   Import
+                </button>
+                <button
+                   onClick={() => setIsSettingsOpen(true)}
+                   className="text-xs text-gray-500 hover:text-white bg-gray-900/80 border border-gray-800 hover:border-gray-600 rounded-md px-3 py-1.5 transition-colors"
+                >
+                   Settings
+                </button>
+             </div>
              <div className="text-center mb-10">
                  <div className="w-20 h-20 bg-gradient-to-tr from-indigo-600 to-purple-500 rounded-2xl mx-auto mb-6 shadow-2xl flex items-center justify-center">
                     <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2a10 10 0 1 0 10 10 4 4 0 0 1-5-5 4 4 0 0 1-5-5" /></svg>
@@ -722,6 +1944,14 @@ const App: React.FC = () => {
                      </button>
                  </form>
              </div>
+
+             <SessionList
+                sessions={sessions}
+                onOpen={openSession}
+                onRename={handleRenameSession}
+                onDuplicate={handleDuplicateSession}
+                onDelete={handleDeleteSession}
+             />
           </div>
       ) : (
           /* CANVAS VIEW */
@@ -737,21 +1967,87 @@ const App: React.FC = () => {
                         <span>{Math.round(scale * 100)}%</span>
                         <button onClick={() => setScale(s => Math.min(3, s + 0.1))} className="hover:text-white">+</button>
                     </div>
+                    <div className="flex items-center gap-1 bg-gray-800/50 rounded-full px-2 py-1 text-gray-400">
+                        <button
+                            onClick={handleUndo}
+                            disabled={undoStack.length === 0 || !!viewingSnapshot}
+                            className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                            title={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                        >
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9 14L4 9l5-5"/><path d="M4 9h11a5 5 0 010 10h-4"/></svg>
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={redoStack.length === 0 || !!viewingSnapshot}
+                            className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                            title={redoStack.length > 0 ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        >
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M15 14l5-5-5-5"/><path d="M20 9H9a5 5 0 000 10h4"/></svg>
+                        </button>
+                    </div>
                 </div>
                 <div className="ml-auto pointer-events-auto text-xs text-gray-500 flex items-center gap-4">
-                    <button onClick={() => {setHasStarted(false); setColumns([columns[0]]); setGlobalInput('')}} className="hover:text-white transition-colors">Reset</button>
+                    <span className="text-gray-600 truncate max-w-xs" title={sessionName}>{sessionName}</span>
+                    <LayoutMenu
+                        mode={layoutMode}
+                        movedCount={movedCount}
+                        onChangeMode={handleChangeLayoutMode}
+                        onAutoArrange={viewingSnapshot ? undefined : handleAutoArrange}
+                    />
+                    {!viewingSnapshot && (
+                        <FoldMenu
+                            maxDepth={maxTreeDepth}
+                            foldedCount={columns.filter(c => c.isFolded).length}
+                            onFoldBelow={handleFoldBelowDepth}
+                            onUnfoldAll={handleUnfoldAll}
+                        />
+                    )}
+                    <button onClick={() => setIsOutlineOpen(open => !open)} className={`transition-colors ${isOutlineOpen ? 'text-white' : 'hover:text-white'}`} title="Show the branch hierarchy as a tree">Outline</button>
+                    {!viewingSnapshot && (
+                        <button onClick={() => setIsSearchOpen(true)} className="hover:text-white transition-colors" title="Search every thread (Ctrl+F)">Search</button>
+                    )}
+                    <button onClick={() => setIsImportOpen(true)} className="hover:text-white transition-colors" title="Open a canvas file, or graft it under a message of the selected column">Import</button>
+                    <button onClick={() => setIsSnapshotPanelOpen(true)} className="hover:text-white transition-colors" title="Save named checkpoints of the tree, restore them or compare them">Snapshots</button>
+                    <button onClick={() => setIsExportOpen(true)} className="hover:text-white transition-colors" title="Export the selected branch or the whole tree as Markdown, HTML or an image">Export</button>
+                    <button onClick={() => setIsActionsPanelOpen(true)} className="hover:text-white transition-colors" title="Edit the actions offered when you select text">Actions</button>
+                    <button onClick={() => setIsShortcutsPanelOpen(true)} className="hover:text-white transition-colors" title="Keyboard shortcuts; press Ctrl+K for every command">Shortcuts</button>
+                    <button onClick={() => setIsSettingsOpen(true)} className="hover:text-white transition-colors" title="Model provider settings">Settings</button>
+                    <button onClick={handleGoHome} className="hover:text-white transition-colors" title="Save and return to your explorations">Home</button>
                 </div>
             </header>
 
             {/* Minimap */}
             <Minimap 
+                columns={canvasColumns}
                 layout={layout} 
-                nodeOffsets={nodeOffsets} 
+                nodeOffsets={canvasOffsets} 
                 pan={pan} 
                 scale={scale} 
                 viewportSize={viewportSize} 
+                selectedColumnId={selectedColumnId}
+                onCenterOn={handleMinimapCenterOn}
+                onZoom={zoomAtCenter}
             />
 
+            {/* Snapshot / Comparison Banner */}
+            {(viewingSnapshot || canvasComparison) && (
+                <div className="fixed top-16 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-gray-900/95 border border-amber-500/40 rounded-xl shadow-2xl backdrop-blur-xl px-4 py-2 text-xs">
+                    <span className="text-amber-200 font-medium">
+                        {canvasComparison ? canvasComparison.label : `Viewing "${viewingSnapshot!.name}" (read-only)`}
+                    </span>
+                    {canvasComparison && <span className="text-gray-400">{canvasComparison.summary}</span>}
+                    {viewingSnapshot && (
+                        <button onClick={() => handleRestoreSnapshot(viewingSnapshot.id)} className="text-indigo-300 hover:text-white font-semibold">Restore</button>
+                    )}
+                    <button
+                        onClick={() => { setViewingSnapshot(null); setCanvasComparison(null); }}
+                        className="text-gray-400 hover:text-white"
+                    >
+                        {viewingSnapshot ? 'Back to live' : 'Clear'}
+                    </button>
+                </div>
+            )}
+
             <main 
                 ref={viewportRef}
                 className="flex-1 overflow-hidden relative cursor-grab active:cursor-grabbing bg-dot-pattern"
@@ -772,7 +2068,7 @@ const App: React.FC = () => {
                     <svg className="absolute overflow-visible top-0 left-0 pointer-events-none z-0">
                         {lines.map(line => (
                             <React.Fragment key={line.id}>
-                                <path d={line.path} className="connector-path" strokeWidth={2 / scale} />
+                                <path d={line.path} className={line.isMerge ? 'connector-path connector-path-merge' : 'connector-path'} strokeWidth={2 / scale} />
                                 {/* Start Dot (Parent Side) */}
                                 <circle cx={line.startX} cy={line.startY} r={4 / scale} className="connector-dot" />
                                 {/* End Dot (Child Side) */}
@@ -781,34 +2077,77 @@ const App: React.FC = () => {
                         ))}
                     </svg>
 
+                    {/* Cluster Frames */}
+                    {clusterFrames.map(([clusterId, frame]) => (
+                        <div
+                            key={clusterId}
+                            className="absolute rounded-2xl border border-dashed border-indigo-500/30 bg-indigo-500/[0.03] pointer-events-none"
+                            style={{
+                                transform: `translate(${frame.left - CLUSTER_PADDING}px, ${frame.top - CLUSTER_PADDING}px)`,
+                                width: frame.right - frame.left + CLUSTER_PADDING * 2,
+                                height: frame.bottom - frame.top + CLUSTER_PADDING * 2
+                            }}
+                        >
+                            <span className="absolute -top-5 left-3 text-[10px] uppercase tracking-wider text-indigo-300/60">
+                                ⑂ {frame.count} parallel branches
+                            </span>
+                        </div>
+                    ))}
+
                     {/* Nodes Layer */}
-                    {columns.map((col) => {
+                    {canvasColumns.map((col) => {
                         const pos = layout.get(col.id);
                         if (!pos) return null;
                         
-                        const offset = nodeOffsets.get(col.id) || {x: 0, y: 0};
+                        const offset = canvasOffsets.get(col.id) || {x: 0, y: 0};
                         const finalX = pos.x + offset.x;
                         const finalY = pos.y + offset.y;
 
                         return (
                             <div 
                                 key={col.id} 
+                                inert={!!viewingSnapshot}
                                 className="absolute chat-column-container"
                                 style={{ 
                                     transform: `translate(${finalX}px, ${finalY - pos.height/2}px)`, 
-                                    width: NODE_WIDTH
+                                    width: pos.width
                                 }}
                             >
                                 <ChatColumn
                                     column={col}
-                                    childColumns={columns}
+                                    childColumns={canvasColumns}
                                     isActive={selectedColumnId === col.id}
                                     onBranch={handleBranch}
+                                    onFanOut={handleFanOut}
+                                    branchActions={branchActions}
                                     onSelect={setSelectedColumnId}
-                                    onClose={col.parentId ? handleCloseColumn : undefined}
+                                    isMergeSelected={mergeSelection.includes(col.id)}
+                                    onToggleMergeSelect={handleToggleMergeSelect}
+                                    onClose={col.parentId || col.timelineOf ? handleCloseColumn : undefined}
                                     onHeightChange={handleNodeResize}
                                     onToggleCollapse={handleToggleCollapse}
                                     onHeaderMouseDown={handleNodeDragStart}
+                                    onResizeStart={handleResizeStart}
+                                    onFitWidth={handleFitColumnWidth}
+                                    onScroll={calculateLines}
+                                    onStop={handleStopGeneration}
+                                    onRetry={handleRetry}
+                                    onRegenerate={handleRegenerate}
+                                    onSelectVariant={handleSelectVariant}
+                                    onEditMessage={handleEditMessage}
+                                    timeline={timelines.get(col.id)}
+                                    defaultModel={getDefaultModel(providerSettings)}
+                                    onUpdateSettings={handleUpdateColumnSettings}
+                                    contextUsage={viewingSnapshot ? undefined : contextUsage.get(col.id)}
+                                    onOpenContext={handleOpenContextPreview}
+                                    diffMark={canvasComparison?.marks.get(col.id)}
+                                    searchHit={searchHit?.columnId === col.id && searchHit.messageId ? { messageId: searchHit.messageId, terms: searchHit.terms } : undefined}
+                                    onMove={col.parentId && !col.mergedFrom?.length ? setMovingColumnId : undefined}
+                                    onRerun={handleRerunColumn}
+                                    onDismissReattached={handleDismissReattached}
+                                    dropHint={reattachHover?.columnId === col.id ? { messageId: reattachHover.messageId, error: reattachHover.error } : undefined}
+                                    descendantCount={descendantCounts.get(col.id) ?? 0}
+                                    onToggleFold={handleToggleFold}
                                 />
                             </div>
                         );
@@ -816,27 +2155,65 @@ const App: React.FC = () => {
                 </div>
             </main>
 
-            {/* Global Input Bar */}
-            <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 w-full max-w-2xl px-4 z-50">
-                <form onSubmit={handleGlobalSubmit} className="relative group">
-                    <div className={`absolute inset-0 bg-indigo-500 rounded-2xl blur transition duration-500 ${selectedColumnId ? 'opacity-20 group-hover:opacity-30' : 'opacity-0'}`}></div>
-                    <input
-                        type="text"
-                        value={globalInput}
-                        onChange={(e) => setGlobalInput(e.target.value)}
-                        placeholder={selectedColumnId ? "Type a message to the selected thread..." : "Select a thread to chat"}
-                        className="w-full bg-gray-900/90 text-white border border-gray-700 rounded-2xl py-4 px-6 pr-14 text-base focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 shadow-2xl backdrop-blur-xl transition-all"
-                        disabled={!selectedColumnId}
-                    />
-                    <button
-                        type="submit"
-                        disabled={!globalInput.trim() || !selectedColumnId}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg"
-                    >
-                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 2L11 13"/><path d="M22 2l-7 20-4-9-9-4 20-7z"/></svg>
+            {/* Synthesis Bar */}
+            {mergeSelection.length > 0 && !viewingSnapshot && (
+                <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-gray-900/95 border border-purple-500/40 rounded-xl shadow-2xl backdrop-blur-xl px-3 py-2 text-xs animate-in fade-in slide-in-from-bottom-2 duration-200">
+                    <span className="text-gray-300 mr-1">
+                        {mergeSelection.length === 1
+                          ? 'Shift+click another branch to synthesize'
+                          : `${mergeSelection.length} branches selected`}
+                    </span>
+                    {SYNTHESIS_MODES.map(mode => (
+                        <button
+                            key={mode.id}
+                            onClick={() => handleSynthesize(mode.id)}
+                            disabled={mergeSelection.length < 2}
+                            title={mode.description}
+                            className="bg-purple-600/80 hover:bg-purple-500 text-white font-medium rounded-md px-2.5 py-1 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {mode.label}
+                        </button>
+                    ))}
+                    <button onClick={() => setMergeSelection([])} className="text-gray-500 hover:text-white px-1.5 py-1">Clear</button>
+                </div>
+            )}
+
+            {/* Undo Toast */}
+            {undoToast && (
+                <div key={undoToast.id} className="fixed bottom-28 right-8 z-50 flex items-center gap-3 bg-gray-900/95 border border-gray-700 rounded-xl shadow-2xl backdrop-blur-xl px-4 py-2.5 text-xs animate-in fade-in slide-in-from-bottom-2 duration-200">
+                    <span className="text-gray-300 max-w-xs truncate">{undoToast.message}</span>
+                    <button onClick={handleUndo} className="text-indigo-300 hover:text-white font-semibold">Undo</button>
+                    <button onClick={() => setUndoToast(null)} className="text-gray-500 hover:text-white">
+                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
                     </button>
-                </form>
-            </div>
+                </div>
+            )}
+
+            {/* Global Input Bar */}
+            {!viewingSnapshot && (
+                <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 w-full max-w-2xl px-4 z-50">
+                    <form onSubmit={handleGlobalSubmit} className="relative group">
+                        <div className={`absolute inset-0 bg-indigo-500 rounded-2xl blur transition duration-500 ${selectedColumnId ? 'opacity-20 group-hover:opacity-30' : 'opacity-0'}`}></div>
+                        <input
+                            ref={globalInputRef}
+                            type="text"
+                            value={globalInput}
+                            onChange={(e) => setGlobalInput(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Escape') e.currentTarget.blur(); }}
+                            placeholder={selectedColumnId ? "Type a message to the selected thread..." : "Select a thread to chat"}
+                            className="w-full bg-gray-900/90 text-white border border-gray-700 rounded-2xl py-4 px-6 pr-14 text-base focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 shadow-2xl backdrop-blur-xl transition-all"
+                            disabled={!selectedColumnId}
+                        />
+                        <button
+                            type="submit"
+                            disabled={!globalInput.trim() || !selectedColumnId}
+                            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg"
+                        >
+                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 2L11 13"/><path d="M22 2l-7 20-4-9-9-4 20-7z"/></svg>
+                        </button>
+                    </form>
+                </div>
+            )}
           </>
       )}
     </div>
@@ -0,0 +1,247 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BranchAction,
+  DEFAULT_BRANCH_ACTIONS,
+  exportBranchActions,
+  normalizeShortcut,
+  parseBranchActions
+} from '../services/branchActionService';
+import { downloadTextFile } from '../services/exportService';
+
+interface BranchActionsPanelProps {
+  actions: BranchAction[];
+  onSave: (actions: BranchAction[]) => void;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-400">
+    <span className="font-medium text-gray-300">{label}</span>
+    {children}
+    {hint && <span className="text-[11px] text-gray-500">{hint}</span>}
+  </label>
+);
+
+const inputClass = "bg-gray-800 text-white text-sm border border-gray-700 rounded-md px-3 py-2 outline-none focus:border-indigo-500";
+
+/**
+ * Editor for the actions offered in the selection tooltip, with JSON import/export.
+ */
+export const BranchActionsPanel: React.FC<BranchActionsPanelProps> = ({ actions, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BranchAction[]>(actions);
+  const [editingId, setEditingId] = useState<string | null>(actions[0]?.id ?? null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = draft.find(a => a.id === editingId);
+
+  const duplicateShortcuts = useMemo(() => {
+    const counts = new Map<string, number>();
+    draft.forEach(a => {
+      if (!a.shortcut) return;
+      const key = normalizeShortcut(a.shortcut);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return new Set([...counts].filter(([, count]) => count > 1).map(([key]) => key));
+  }, [draft]);
+
+  const updateAction = (id: string, patch: Partial<BranchAction>) => {
+    setDraft(prev => prev.map(a => a.id === id ? { ...a, ...patch } : a));
+  };
+
+  const updateSettings = (id: string, patch: Partial<NonNullable<BranchAction['settings']>>) => {
+    setDraft(prev => prev.map(a => {
+      if (a.id !== id) return a;
+      const settings = { ...a.settings, ...patch };
+      (Object.keys(settings) as (keyof typeof settings)[]).forEach(key => {
+        if (settings[key] === undefined || settings[key] === '') delete settings[key];
+      });
+      return { ...a, settings: Object.keys(settings).length > 0 ? settings : undefined };
+    }));
+  };
+
+  const handleAdd = () => {
+    const action: BranchAction = { id: uuidv4(), label: 'New action', icon: '⭐', template: '{{selection}}' };
+    setDraft(prev => [...prev, action]);
+    setEditingId(action.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const index = draft.findIndex(a => a.id === id);
+    const remaining = draft.filter(a => a.id !== id);
+    setDraft(remaining);
+    setEditingId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+  };
+
+  const handleMove = (id: string, delta: number) => {
+    setDraft(prev => {
+      const index = prev.findIndex(a => a.id === id);
+      const target = index + delta;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    downloadTextFile('branch-actions.json', exportBranchActions(draft), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseBranchActions(await file.text());
+      setDraft(imported);
+      setEditingId(imported[0]?.id ?? null);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft.filter(a => a.label.trim() && a.template.trim()));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh]"
+      >
+        <div className="h-12 px-5 flex items-center gap-3 border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white flex-1">Branch actions</h2>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="text-xs text-gray-400 hover:text-white">Import…</button>
+          <button type="button" onClick={handleExport} className="text-xs text-gray-400 hover:text-white">Export</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        {importError && (
+          <div className="mx-5 mt-3 text-xs bg-red-500/10 border border-red-500/40 text-red-300 rounded-lg px-3 py-2">
+            <span className="font-semibold">Import failed.</span> {importError}
+          </div>
+        )}
+
+        <div className="flex min-h-0 flex-1">
+          <div className="w-56 border-r border-gray-800 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-1">
+              {draft.map((action, index) => (
+                <div
+                  key={action.id}
+                  onClick={() => setEditingId(action.id)}
+                  className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-xs cursor-pointer ${
+                    action.id === editingId ? 'bg-indigo-900/40 text-white' : 'text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <span className="w-4 text-center">{action.icon}</span>
+                  <span className="flex-1 truncate">{action.label || <em className="text-gray-600">Untitled</em>}</span>
+                  {action.shortcut && (
+                    <kbd className={`text-[10px] rounded px-1 border ${
+                      duplicateShortcuts.has(normalizeShortcut(action.shortcut)) ? 'border-red-500/60 text-red-300' : 'border-gray-700 text-gray-500'
+                    }`}>{action.shortcut}</kbd>
+                  )}
+                  <span className="hidden group-hover:flex flex-col leading-none text-gray-500">
+                    <button type="button" onClick={(e) => { e.stopPropagation(); handleMove(action.id, -1); }} disabled={index === 0} className="hover:text-white disabled:opacity-30">▴</button>
+                    <button type="button" onClick={(e) => { e.stopPropagation(); handleMove(action.id, 1); }} disabled={index === draft.length - 1} className="hover:text-white disabled:opacity-30">▾</button>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="p-2 border-t border-gray-800 flex justify-between text-xs">
+              <button type="button" onClick={handleAdd} className="text-indigo-300 hover:text-white px-2 py-1">+ Add</button>
+              <button type="button" onClick={() => { setDraft(DEFAULT_BRANCH_ACTIONS); setEditingId(DEFAULT_BRANCH_ACTIONS[0].id); }} className="text-gray-500 hover:text-white px-2 py-1">Reset</button>
+            </div>
+          </div>
+
+          <div className="flex-1 p-5 flex flex-col gap-4 overflow-y-auto">
+            {!editing ? (
+              <div className="text-xs text-gray-500 italic">No actions. Add one, or import a shared set.</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-[4rem_1fr_7rem] gap-3">
+                  <Field label="Icon">
+                    <input className={inputClass} value={editing.icon} onChange={(e) => updateAction(editing.id, { icon: e.target.value })} />
+                  </Field>
+                  <Field label="Label">
+                    <input className={inputClass} value={editing.label} onChange={(e) => updateAction(editing.id, { label: e.target.value })} />
+                  </Field>
+                  <Field label="Shortcut">
+                    <input
+                      className={inputClass}
+                      value={editing.shortcut ?? ''}
+                      placeholder="e.g. Alt+1"
+                      onChange={(e) => updateAction(editing.id, { shortcut: e.target.value || undefined })}
+                    />
+                  </Field>
+                </div>
+                {editing.shortcut && duplicateShortcuts.has(normalizeShortcut(editing.shortcut)) && (
+                  <div className="text-[11px] text-red-300 -mt-2">Another action uses this shortcut; only the first one will fire.</div>
+                )}
+                <Field label="Prompt template" hint="{{selection}} is replaced by the selected text, {{message}} by the whole message it was selected from.">
+                  <textarea
+                    className={`${inputClass} h-32 font-mono text-xs`}
+                    value={editing.template}
+                    onChange={(e) => updateAction(editing.id, { template: e.target.value })}
+                  />
+                </Field>
+
+                <div className="border-t border-gray-800 pt-4 flex flex-col gap-3">
+                  <h3 className="text-xs font-semibold text-gray-300">Model settings <span className="font-normal text-gray-500">(optional, applied to the new branch)</span></h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Field label="Model">
+                      <input
+                        className={inputClass}
+                        value={editing.settings?.model ?? ''}
+                        placeholder="Inherit"
+                        onChange={(e) => updateSettings(editing.id, { model: e.target.value || undefined })}
+                      />
+                    </Field>
+                    <Field label="Temperature">
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        className={inputClass}
+                        value={editing.settings?.temperature ?? ''}
+                        placeholder="Inherit"
+                        onChange={(e) => updateSettings(editing.id, { temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      />
+                    </Field>
+                  </div>
+                  <Field label="System prompt">
+                    <textarea
+                      className={`${inputClass} h-16 text-xs`}
+                      value={editing.settings?.systemPrompt ?? ''}
+                      placeholder="Inherit"
+                      onChange={(e) => updateSettings(editing.id, { systemPrompt: e.target.value || undefined })}
+                    />
+                  </Field>
+                </div>
+
+                <button type="button" onClick={() => handleDelete(editing.id)} className="self-start text-xs text-red-400 hover:text-red-300">
+                  Delete action
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-white px-3 py-2">Cancel</button>
+          <button type="submit" className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium px-4 py-2 rounded-md">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,35 +1,110 @@
-import React, { useRef, useEffect } from 'react';
-import { Column } from '../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { Column, ModelSettings, TextQuoteSelector } from '../types';
 import { MessageBubble } from './MessageBubble';
+import { ColumnSettingsPopover, formatSettingsBadge } from './ColumnSettingsPopover';
+import { GenerationOptions } from '../services/llmProvider';
+import { BranchAction, BranchChoice } from '../services/branchActionService';
+import { DiffMark } from '../services/snapshotDiffService';
 
 interface ChatColumnProps {
   column: Column;
   childColumns: Column[]; // Pass all columns to find children of this column
   isActive: boolean;
-  onBranch: (columnId: string, messageId: string, text: string, customPrompt?: string) => void;
+  onBranch: (columnId: string, messageId: string, text: string, customPrompt?: string, action?: BranchAction, anchor?: TextQuoteSelector) => void;
+  onFanOut: (columnId: string, messageId: string, text: string, choices: BranchChoice[], anchor?: TextQuoteSelector) => void;
+  branchActions: BranchAction[];
   onClose?: (columnId: string) => void;
   onSelect: (columnId: string) => void;
+  isMergeSelected: boolean;
+  onToggleMergeSelect: (columnId: string) => void; // Shift/Ctrl/Cmd+click picks columns for a synthesis
   onScroll?: () => void;
   onHeightChange?: (id: string, height: number) => void;
   onToggleCollapse: (columnId: string) => void;
   onHeaderMouseDown: (e: React.MouseEvent, columnId: string) => void;
+  onResizeStart: (e: React.MouseEvent, columnId: string, edges: { horizontal: boolean; vertical: boolean }) => void;
+  onFitWidth: (columnId: string, contentWidth: number | undefined) => void; // Undefined when there is nothing wide to fit
+  onStop: (columnId: string) => void;
+  onRetry: (columnId: string, messageId: string) => void;
+  onRegenerate: (columnId: string, messageId: string, options?: GenerationOptions) => void;
+  onSelectVariant: (columnId: string, messageId: string, variantId: string) => void;
+  onEditMessage: (columnId: string, messageId: string, newText: string) => void;
+  timeline?: { index: number; ids: string[] }; // Set when this column has alternate timelines
+  defaultModel: string;
+  onUpdateSettings: (columnId: string, settings: ModelSettings | undefined) => void;
+  contextUsage?: { tokens: number; rawTokens: number; budget: number }; // Estimated history size for the next message
+  onOpenContext: (columnId: string) => void;
+  diffMark?: DiffMark; // Set while a snapshot comparison is highlighted on the canvas
+  searchHit?: { messageId: string; terms: string[] }; // The message a search result jumped to
+  onMove?: (columnId: string) => void; // Omitted for columns that can't be reattached
+  onRerun: (columnId: string) => void; // Regenerates the replies of a column flagged by a move
+  onDismissReattached: (columnId: string) => void;
+  dropHint?: { messageId: string; error: string | null }; // A branch is being dragged onto this message
+  descendantCount: number; // Columns below this one at any depth
+  onToggleFold: (columnId: string) => void;
 }
 
+const formatTokenCount = (tokens: number) => tokens >= 1000 ? `${Math.round(tokens / 100) / 10}k` : String(tokens);
+
+const FIT_SLACK = 16; // Reply bubbles are a little narrower than the card
+
+/**
+ * Card width at which the widest code block or table in it shows without scrolling, or undefined if it has none.
+ */
+const measureContentWidth = (card: HTMLElement): number | undefined => {
+  const blocks = Array.from(card.querySelectorAll<HTMLElement>('pre, table'));
+  if (blocks.length === 0) return undefined;
+  return Math.max(...blocks.map(block => {
+    const current = block.offsetWidth;
+    const previous = block.style.width;
+    block.style.width = 'max-content';
+    const natural = block.offsetWidth;
+    block.style.width = previous;
+    return Math.ceil(card.offsetWidth - current + natural + FIT_SLACK);
+  }));
+};
+
 export const ChatColumn: React.FC<ChatColumnProps> = ({
   column,
   childColumns,
   isActive,
   onBranch,
+  onFanOut,
+  branchActions,
   onClose,
   onSelect,
+  isMergeSelected,
+  onToggleMergeSelect,
   onScroll,
   onHeightChange,
   onToggleCollapse,
-  onHeaderMouseDown
+  onHeaderMouseDown,
+  onResizeStart,
+  onFitWidth,
+  onStop,
+  onRetry,
+  onRegenerate,
+  onSelectVariant,
+  onEditMessage,
+  timeline,
+  defaultModel,
+  onUpdateSettings,
+  contextUsage,
+  onOpenContext,
+  diffMark,
+  searchHit,
+  onMove,
+  onRerun,
+  onDismissReattached,
+  dropHint,
+  descendantCount,
+  onToggleFold
 }) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
+  const settingsBadge = formatSettingsBadge(column.settings);
+
   // Find which columns branch off immediately from this one
   const directChildren = childColumns.filter(c => c.parentId === column.id);
 
@@ -46,20 +121,34 @@ export const ChatColumn: React.FC<ChatColumnProps> = ({
     return () => observer.disconnect();
   }, [column.id, onHeightChange, column.isCollapsed]);
 
+  const hasFixedHeight = !!column.height && !column.isCollapsed;
+
+  const fitWidth = () => {
+    if (containerRef.current) onFitWidth(column.id, measureContentWidth(containerRef.current));
+  };
+
+  const startResize = (horizontal: boolean, vertical: boolean) => (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    onResizeStart(e, column.id, { horizontal, vertical });
+  };
+
   return (
     <div 
         ref={containerRef}
         id={`column-${column.id}`}
-        onClick={() => onSelect(column.id)}
+        onClick={(e) => (e.shiftKey || e.ctrlKey || e.metaKey) ? onToggleMergeSelect(column.id) : onSelect(column.id)}
+        style={hasFixedHeight ? { height: column.height } : undefined}
         className={`
-            flex flex-col w-[450px]
+            flex flex-col w-full
             ${column.isCollapsed ? 'h-auto' : 'min-h-[200px]'} 
             rounded-2xl border bg-gray-900 shadow-2xl
-            transition-all duration-300 relative group cursor-default
+            transition-[border-color,box-shadow,opacity,outline-color] duration-300 relative group cursor-default
             ${isActive 
               ? 'border-indigo-500 ring-2 ring-indigo-500/50 shadow-indigo-500/20 z-10' 
               : 'border-gray-700 hover:border-gray-600 opacity-90 hover:opacity-100'
             }
+            ${isMergeSelected ? 'outline outline-2 outline-offset-4 outline-purple-500' : ''}
+            ${!isMergeSelected && diffMark ? `outline outline-2 outline-offset-4 ${diffMark.kind === 'added' ? 'outline-emerald-500' : 'outline-amber-500'}` : ''}
         `}
     >
       {/* Header - Draggable Area */}
@@ -88,6 +177,17 @@ export const ChatColumn: React.FC<ChatColumnProps> = ({
                 <h2 className={`font-semibold truncate text-sm ${isActive ? 'text-white' : 'text-gray-300'}`} title={column.title}>
                 {column.title || "New Thread"}
                 </h2>
+                {diffMark && (
+                    <span className={`text-[10px] truncate ${diffMark.kind === 'added' ? 'text-emerald-300' : 'text-amber-300'}`}>
+                        {diffMark.kind === 'added' ? 'New since the snapshot' : `Changed · ${diffMark.messages.size} ${diffMark.messages.size === 1 ? 'message' : 'messages'}`}
+                    </span>
+                )}
+                {column.mergedFrom && column.mergedFrom.length > 0 && !column.isCollapsed && (
+                    <span className="text-[10px] text-purple-300 truncate flex items-center gap-1 opacity-90">
+                    <span className="w-1 h-1 rounded-full bg-purple-500 inline-block"></span>
+                        Synthesis of {column.mergedFrom.length} branches
+                    </span>
+                )}
                 {column.contextSnippet && !column.isCollapsed && (
                     <span className="text-[10px] text-indigo-400 truncate flex items-center gap-1 opacity-90">
                     <span className="w-1 h-1 rounded-full bg-indigo-500 inline-block"></span>
@@ -97,6 +197,114 @@ export const ChatColumn: React.FC<ChatColumnProps> = ({
             </div>
         </div>
         
+        {contextUsage && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onOpenContext(column.id); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="flex flex-col items-end gap-0.5 ml-2 px-1.5 py-1 rounded hover:bg-white/5 pointer-events-auto"
+            title={contextUsage.rawTokens > contextUsage.budget
+              ? `History (~${contextUsage.rawTokens.toLocaleString()} tokens) exceeds the budget and will be compressed to ~${contextUsage.tokens.toLocaleString()}. Click to inspect.`
+              : `~${contextUsage.tokens.toLocaleString()} of ${contextUsage.budget.toLocaleString()} context tokens used. Click to inspect.`}
+          >
+            <span className={`text-[9px] tabular-nums ${contextUsage.rawTokens > contextUsage.budget ? 'text-amber-300' : 'text-gray-500'}`}>
+              {formatTokenCount(contextUsage.tokens)}/{formatTokenCount(contextUsage.budget)}
+            </span>
+            <span className="w-12 h-1 bg-gray-800 rounded-full overflow-hidden">
+              <span
+                className={`block h-full rounded-full ${contextUsage.rawTokens > contextUsage.budget ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                style={{ width: `${Math.min(100, (contextUsage.tokens / contextUsage.budget) * 100)}%` }}
+              />
+            </span>
+          </button>
+        )}
+
+        {settingsBadge && (
+          <span
+            className="text-[10px] text-gray-400 bg-gray-800/80 border border-gray-700 rounded-full px-2 py-0.5 ml-2 truncate max-w-[140px]"
+            title={column.settings?.systemPrompt ? `System prompt: ${column.settings.systemPrompt}` : settingsBadge}
+          >
+            {settingsBadge}
+          </span>
+        )}
+
+        {descendantCount > 0 && !column.isFolded && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onToggleFold(column.id); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="p-1.5 rounded-full hover:bg-white/5 transition-colors ml-1 pointer-events-auto text-gray-500 hover:text-white"
+            title={`Fold the ${descendantCount} ${descendantCount === 1 ? 'branch' : 'branches'} below this thread`}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 12h10"/><path d="M10 8l4 4-4 4"/><path d="M20 4v16"/></svg>
+          </button>
+        )}
+
+        {!column.isCollapsed && (
+          <button
+            onClick={(e) => { e.stopPropagation(); fitWidth(); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="p-1.5 rounded-full hover:bg-white/5 transition-colors ml-1 pointer-events-auto text-gray-500 hover:text-white"
+            title="Fit the width to the widest code block or table, and let the height follow the messages"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12h18"/><path d="M7 8l-4 4 4 4"/><path d="M17 8l4 4-4 4"/></svg>
+          </button>
+        )}
+
+        {onMove && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onMove(column.id); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="p-1.5 rounded-full hover:bg-white/5 transition-colors ml-1 pointer-events-auto text-gray-500 hover:text-white"
+            title="Move to another reply… (or hold Alt while dragging the header onto one)"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M6 3v12"/><circle cx="18" cy="6" r="3"/><circle cx="6" cy="18" r="3"/><path d="M18 9a9 9 0 0 1-9 9"/></svg>
+          </button>
+        )}
+
+        <button
+          onClick={(e) => { e.stopPropagation(); setIsSettingsOpen(v => !v); }}
+          onMouseDown={(e) => e.stopPropagation()}
+          className={`p-1.5 rounded-full hover:bg-white/5 transition-colors ml-1 pointer-events-auto ${isSettingsOpen ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+          title="Model, temperature and system prompt for this thread"
+        >
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 21v-7M4 10V3M12 21v-9M12 8V3M20 21v-5M20 12V3M1 14h6M9 8h6M17 16h6"/></svg>
+        </button>
+
+        {timeline && (
+          <div
+            className="flex items-center gap-0.5 text-[10px] text-amber-300/90 bg-amber-500/10 border border-amber-500/30 rounded-full px-1.5 py-0.5 ml-2 pointer-events-auto"
+            title="Alternate timelines of this thread, created by editing a message"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={(e) => { e.stopPropagation(); onSelect(timeline.ids[timeline.index - 1]); }}
+              disabled={timeline.index === 0}
+              className="px-0.5 hover:text-white disabled:opacity-30"
+            >
+              ‹
+            </button>
+            <span className="tabular-nums">⑂ {timeline.index + 1}/{timeline.ids.length}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onSelect(timeline.ids[timeline.index + 1]); }}
+              disabled={timeline.index === timeline.ids.length - 1}
+              className="px-0.5 hover:text-white disabled:opacity-30"
+            >
+              ›
+            </button>
+          </div>
+        )}
+
+        {column.isThinking && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onStop(column.id); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="flex items-center gap-1.5 text-[11px] text-gray-300 hover:text-white bg-gray-800 hover:bg-red-500/80 border border-gray-700 hover:border-red-400 rounded-full px-2.5 py-1 transition-colors ml-2 pointer-events-auto"
+            title="Stop generating"
+          >
+            <span className="w-2 h-2 bg-current rounded-[1px] inline-block"></span>
+            Stop
+          </button>
+        )}
+
         {onClose && (
           <button 
             onClick={(e) => { e.stopPropagation(); onClose(column.id); }}
@@ -107,40 +315,125 @@ export const ChatColumn: React.FC<ChatColumnProps> = ({
         )}
       </div>
 
+      {/* Resize handles: right edge, bottom edge and corner. Double-click the right edge to fit the content */}
+      <div
+        onMouseDown={startResize(true, false)}
+        onDoubleClick={(e) => { e.stopPropagation(); fitWidth(); }}
+        className="absolute top-4 bottom-4 -right-1 w-2 cursor-ew-resize"
+        title="Drag to resize, double-click to fit the content"
+      />
+      {!column.isCollapsed && (
+        <>
+          <div onMouseDown={startResize(false, true)} className="absolute left-4 right-4 -bottom-1 h-2 cursor-ns-resize" />
+          <div onMouseDown={startResize(true, true)} className="absolute -right-1 -bottom-1 w-4 h-4 cursor-nwse-resize" />
+        </>
+      )}
+
+      {isSettingsOpen && (
+        <ColumnSettingsPopover
+          settings={column.settings}
+          defaultModel={defaultModel}
+          onSave={(settings) => onUpdateSettings(column.id, settings)}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {column.isFolded && descendantCount > 0 && (
+          <button
+              onClick={(e) => { e.stopPropagation(); onToggleFold(column.id); }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="absolute top-6 -right-3 translate-x-full z-20 flex items-center gap-1 text-[11px] font-medium text-indigo-200 bg-gray-900 hover:bg-indigo-600 border border-indigo-500/50 hover:border-indigo-400 rounded-full px-2.5 py-1 shadow-lg transition-colors"
+              title="Unfold the branches below this thread"
+          >
+              +{descendantCount} {descendantCount === 1 ? 'branch' : 'branches'}
+          </button>
+      )}
+
+      {column.reattachedAt && !column.isCollapsed && (
+          <div className="px-4 py-2 border-b border-amber-500/20 bg-amber-500/5 flex items-center gap-2 text-[11px]">
+              <span className="flex-1 text-amber-200/90">Moved to a new branch point. These replies were written for its previous context.</span>
+              <button
+                  onClick={(e) => { e.stopPropagation(); onRerun(column.id); }}
+                  disabled={column.isThinking}
+                  className="text-indigo-300 hover:text-white font-semibold disabled:opacity-40"
+                  title="Regenerate every reply in order; the old ones stay available as variants"
+              >
+                  Re-run
+              </button>
+              <button
+                  onClick={(e) => { e.stopPropagation(); onDismissReattached(column.id); }}
+                  className="text-gray-500 hover:text-white"
+              >
+                  Keep
+              </button>
+          </div>
+      )}
+
       {/* Messages Area - Hidden if collapsed */}
       {!column.isCollapsed && (
-          <div className="flex-1 p-2 bg-gray-900/95 relative animate-in slide-in-from-top-2 duration-200 pb-8">
-            {column.messages.length === 0 && (
-            <div className="text-center text-gray-600 mt-10 text-xs">
-                <div className="w-8 h-8 bg-gray-800 rounded-full mx-auto mb-2 flex items-center justify-center text-xl grayscale opacity-50">✨</div>
-                {column.parentId 
-                ? "Thread started..." 
-                : "Start a conversation..."}
-            </div>
-            )}
+          <div className={`flex-1 p-2 bg-gray-900/95 relative animate-in slide-in-from-top-2 duration-200 pb-8 ${hasFixedHeight ? 'min-h-0 flex flex-col' : ''}`}>
+            {/* With a fixed height the messages scroll; the wheel zooms the canvas only when there is nothing to scroll */}
+            <div
+              className={hasFixedHeight ? 'flex-1 min-h-0 overflow-y-auto' : undefined}
+              onWheel={hasFixedHeight ? (e) => { if (e.currentTarget.scrollHeight > e.currentTarget.clientHeight) e.stopPropagation(); } : undefined}
+              onScroll={hasFixedHeight ? onScroll : undefined}
+            >
+              {column.messages.length === 0 && (
+              <div className="text-center text-gray-600 mt-10 text-xs">
+                  <div className="w-8 h-8 bg-gray-800 rounded-full mx-auto mb-2 flex items-center justify-center text-xl grayscale opacity-50">✨</div>
+                  {column.parentId 
+                  ? "Thread started..." 
+                  : "Start a conversation..."}
+              </div>
+              )}
             
-            {column.messages.map((msg) => (
-            <MessageBubble 
-                key={msg.id} 
-                message={msg} 
-                columnId={column.id}
-                onBranch={(text, msgId, customPrompt) => onBranch(column.id, msgId, text, customPrompt)}
-                isLatestModel={msg.role === 'model' && msg === column.messages[column.messages.length - 1]}
-                childColumns={directChildren.filter(c => c.parentMessageId === msg.id)}
-            />
-            ))}
-
-            {column.isThinking && (
-            <div className="flex items-center gap-2 text-gray-400 text-xs ml-2 mb-4">
-                <div className="flex space-x-1">
-                    <div className="w-1 bg-indigo-500 rounded-full animate-bounce h-1"></div>
-                    <div className="w-1 bg-indigo-500 rounded-full animate-bounce delay-75 h-1"></div>
-                    <div className="w-1 bg-indigo-500 rounded-full animate-bounce delay-150 h-1"></div>
-                </div>
-                Thinking...
+              {column.messages.map((msg) => (
+              <div
+                  key={msg.id}
+                  data-column-id={column.id}
+                  data-message-id={msg.id}
+                  className={dropHint?.messageId === msg.id
+                    ? `rounded-xl ring-2 ${dropHint.error ? 'ring-red-500/60' : 'ring-indigo-400 bg-indigo-500/10'}`
+                    : diffMark?.messages.has(msg.id)
+                    ? `rounded-xl ring-1 ${diffMark.messages.get(msg.id) === 'added' ? 'ring-emerald-500/60 bg-emerald-500/5' : 'ring-amber-500/60 bg-amber-500/5'}`
+                    : undefined}
+              >
+              {dropHint?.messageId === msg.id && (
+                  <div className={`px-2 pt-1 text-[10px] ${dropHint.error ? 'text-red-300' : 'text-indigo-200'}`}>
+                      {dropHint.error ?? 'Release to branch from this reply'}
+                  </div>
+              )}
+              <MessageBubble 
+
+                  message={msg} 
+                  columnId={column.id}
+                  onBranch={(text, msgId, customPrompt, action, anchor) => onBranch(column.id, msgId, text, customPrompt, action, anchor)}
+                  onFanOut={(text, msgId, choices, anchor) => onFanOut(column.id, msgId, text, choices, anchor)}
+                  branchActions={branchActions}
+                  onRetry={column.isThinking ? undefined : (msgId) => onRetry(column.id, msgId)}
+                  onRegenerate={column.isThinking ? undefined : (msgId, options) => onRegenerate(column.id, msgId, options)}
+                  onSelectVariant={(msgId, variantId) => onSelectVariant(column.id, msgId, variantId)}
+                  onSelectBranch={onSelect}
+                  onEdit={msg.role === 'user' ? (msgId, text) => onEditMessage(column.id, msgId, text) : undefined}
+                  isLatestModel={msg.role === 'model' && msg === column.messages[column.messages.length - 1]}
+                  childColumns={directChildren.filter(c => c.parentMessageId === msg.id)}
+                  searchTerms={searchHit?.messageId === msg.id ? searchHit.terms : undefined}
+              />
+              </div>
+              ))}
+
+              {column.isThinking && (
+              <div className="flex items-center gap-2 text-gray-400 text-xs ml-2 mb-4">
+                  <div className="flex space-x-1">
+                      <div className="w-1 bg-indigo-500 rounded-full animate-bounce h-1"></div>
+                      <div className="w-1 bg-indigo-500 rounded-full animate-bounce delay-75 h-1"></div>
+                      <div className="w-1 bg-indigo-500 rounded-full animate-bounce delay-150 h-1"></div>
+                  </div>
+                  Thinking...
+              </div>
+              )}
+              <div ref={messagesEndRef} />
             </div>
-            )}
-            <div ref={messagesEndRef} />
             
             {/* Bottom Collapse Button */}
             <div className={`absolute bottom-0 left-0 h-4 w-full rounded-b-2xl flex items-center justify-center transition-all duration-300 ${isActive ? 'bg-indigo-900/10' : 'bg-transparent'}`}>
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ModelSettings } from '../types';
+
+interface ColumnSettingsPopoverProps {
+  settings?: ModelSettings;
+  defaultModel: string;
+  onSave: (settings: ModelSettings | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Compact summary of the overrides in effect, e.g. "gpt-4o · t0.2 · 2k · SP".
+ */
+export const formatSettingsBadge = (settings?: ModelSettings): string => {
+  if (!settings) return '';
+  const parts: string[] = [];
+  if (settings.model) parts.push(settings.model);
+  if (settings.temperature !== undefined) parts.push(`t${settings.temperature}`);
+  if (settings.maxOutputTokens !== undefined) {
+    parts.push(settings.maxOutputTokens >= 1000 ? `${Math.round(settings.maxOutputTokens / 100) / 10}k` : String(settings.maxOutputTokens));
+  }
+  if (settings.systemPrompt) parts.push('SP');
+  return parts.join(' · ');
+};
+
+const inputClass = "w-full bg-gray-800 text-white text-xs border border-gray-700 rounded px-2 py-1.5 outline-none focus:border-indigo-500";
+
+const parseOptionalNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const ColumnSettingsPopover: React.FC<ColumnSettingsPopoverProps> = ({
+  settings,
+  defaultModel,
+  onSave,
+  onClose
+}) => {
+  const [model, setModel] = useState(settings?.model ?? '');
+  const [temperature, setTemperature] = useState(settings?.temperature?.toString() ?? '');
+  const [maxOutputTokens, setMaxOutputTokens] = useState(settings?.maxOutputTokens?.toString() ?? '');
+  const [systemPrompt, setSystemPrompt] = useState(settings?.systemPrompt ?? '');
+  const containerRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next: ModelSettings = {
+      model: model.trim() || undefined,
+      temperature: parseOptionalNumber(temperature),
+      maxOutputTokens: parseOptionalNumber(maxOutputTokens),
+      systemPrompt: systemPrompt.trim() || undefined
+    };
+    const isEmpty = Object.values(next).every(v => v === undefined);
+    onSave(isEmpty ? undefined : next);
+    onClose();
+  };
+
+  return (
+    <form
+      ref={containerRef}
+      onSubmit={handleSubmit}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      className="absolute top-12 right-2 z-30 w-72 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-3 flex flex-col gap-2.5 cursor-default"
+    >
+      <div className="text-[11px] font-semibold text-gray-300">Thread settings</div>
+      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+        Model
+        <input className={inputClass} value={model} onChange={(e) => setModel(e.target.value)} placeholder={defaultModel} />
+      </label>
+      <div className="flex gap-2">
+        <label className="flex-1 flex flex-col gap-1 text-[10px] text-gray-400">
+          Temperature
+          <input type="number" step="0.1" min="0" max="2" className={inputClass} value={temperature} onChange={(e) => setTemperature(e.target.value)} placeholder="Default" />
+        </label>
+        <label className="flex-1 flex flex-col gap-1 text-[10px] text-gray-400">
+          Max output tokens
+          <input type="number" step="1" min="1" className={inputClass} value={maxOutputTokens} onChange={(e) => setMaxOutputTokens(e.target.value)} placeholder="Default" />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+        System prompt
+        <textarea
+          className={`${inputClass} h-20 resize-y`}
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          placeholder="e.g. Explain like I'm five."
+        />
+      </label>
+      <div className="text-[10px] text-gray-500">New branches from this thread start with these settings.</div>
+      <div className="flex justify-end gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => { onSave(undefined); onClose(); }}
+          className="mr-auto text-gray-500 hover:text-white px-1"
+        >
+          Clear
+        </button>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white px-2 py-1">Cancel</button>
+        <button type="submit" className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded px-3 py-1">Save</button>
+      </div>
+    </form>
+  );
+};
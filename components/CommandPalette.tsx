@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CommandDefinition, CommandId, formatShortcut, fuzzyMatch } from '../services/shortcutService';
+
+export interface PaletteCommand extends CommandDefinition {
+  shortcuts: string[]; // Current bindings, after remapping
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[]; // Only the commands that can run right now
+  onRun: (id: CommandId) => void;
+  onClose: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; positions: number[] }> = ({ text, positions }) => {
+  const marked = new Set(positions);
+  return (
+    <>
+      {Array.from(text).map((char, index) => marked.has(index)
+        ? <span key={index} className="text-indigo-300 font-semibold">{char}</span>
+        : char)}
+    </>
+  );
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // The group takes part in matching ("view zoom"), but only positions in the label are highlighted
+  const results = useMemo(() => {
+    if (!query.trim()) return commands.map(command => ({ command, positions: [] as number[] }));
+    return commands
+      .map(command => {
+        const labelMatch = fuzzyMatch(query, command.label);
+        const groupMatch = labelMatch ? null : fuzzyMatch(query, `${command.group} ${command.label}`);
+        const match = labelMatch ?? (groupMatch && { score: groupMatch.score - 1, positions: [] });
+        return match && { command, positions: match.positions, score: match.score };
+      })
+      .filter((result): result is NonNullable<typeof result> => !!result)
+      .sort((a, b) => b.score - a.score);
+  }, [commands, query]);
+
+  useEffect(() => setActiveIndex(0), [results]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      onRun(results[activeIndex].command.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[60vh]"
+      >
+        <div className="h-12 px-4 flex items-center gap-3 border-b border-gray-800">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-500 shrink-0"><path d="M9 18l6-6-6-6"/></svg>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Type a command…"
+            className="flex-1 min-w-0 bg-transparent text-sm text-white outline-none placeholder-gray-600"
+            autoFocus
+          />
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <ul ref={listRef} className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5 text-xs">
+          {results.length === 0 && (
+            <li className="text-gray-500 italic px-3 py-4">No command matches.</li>
+          )}
+          {results.map(({ command, positions }, index) => (
+            <li
+              key={command.id}
+              data-active={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onRun(command.id)}
+              className={`rounded-lg px-3 py-2 cursor-pointer flex items-center gap-3 ${index === activeIndex ? 'bg-indigo-600/20 ring-1 ring-indigo-500/40' : 'hover:bg-gray-800/60'}`}
+            >
+              <span className="w-16 shrink-0 text-[11px] text-gray-500">{command.group}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-200">
+                <Highlighted text={command.label} positions={positions} />
+              </span>
+              {command.shortcuts.map(shortcut => (
+                <kbd key={shortcut} className="shrink-0 text-[10px] border border-gray-700 text-gray-400 rounded px-1.5 py-0.5">{formatShortcut(shortcut)}</kbd>
+              ))}
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-5 py-2 border-t border-gray-800 flex gap-4 text-[11px] text-gray-500">
+          <span>↑↓ to choose</span>
+          <span>Enter to run</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React from 'react';
+import { ContextPlan, PlannedTurnKind, estimateTokens } from '../services/contextService';
+
+interface ContextPreviewProps {
+  title: string;
+  plan: ContextPlan;
+  systemPrompt?: string;
+  pendingMessage: string;
+  isPreparing: boolean;
+  error?: string | null;
+  onGenerateSummaries: () => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<PlannedTurnKind, string> = {
+  message: '',
+  branch: 'branch point',
+  summary: 'summary',
+  omitted: 'trimmed'
+};
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * Shows exactly which turns the next message in a column will send.
+ */
+export const ContextPreview: React.FC<ContextPreviewProps> = ({
+  title,
+  plan,
+  systemPrompt,
+  pendingMessage,
+  isPreparing,
+  error,
+  onGenerateSummaries,
+  onClose
+}) => {
+  const pendingCount = plan.missingSummaries.length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[85vh]"
+      >
+        <div className="px-5 py-3 flex items-center gap-3 border-b border-gray-800">
+          <div className="flex-1 overflow-hidden">
+            <h2 className="font-semibold text-sm text-white truncate">Context for "{title}"</h2>
+            <div className="text-[11px] text-gray-500">
+              {plan.turns.length} turns · ~{formatTokens(plan.plannedTokens)} of {formatTokens(plan.budget)} tokens
+              {plan.rawTokens > plan.plannedTokens && ` (compressed from ~${formatTokens(plan.rawTokens)})`}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        {pendingCount > 0 && (
+          <div className="mx-5 mt-3 flex items-center gap-3 text-xs bg-amber-500/10 border border-amber-500/30 text-amber-200 rounded-lg px-3 py-2">
+            <span className="flex-1">
+              {pendingCount} ancestor {pendingCount === 1 ? 'summary is' : 'summaries are'} not generated yet and will be created before sending.
+            </span>
+            <button
+              onClick={onGenerateSummaries}
+              disabled={isPreparing}
+              className="flex-shrink-0 bg-amber-500/20 hover:bg-amber-500/30 text-amber-100 rounded px-2 py-1 disabled:opacity-50"
+            >
+              {isPreparing ? 'Generating...' : 'Generate now'}
+            </button>
+          </div>
+        )}
+        {error && (
+          <div className="mx-5 mt-3 text-xs bg-red-500/10 border border-red-500/40 text-red-300 rounded-lg px-3 py-2">{error}</div>
+        )}
+
+        <div className="p-5 overflow-y-auto flex flex-col gap-2 text-xs">
+          {systemPrompt && (
+            <div className="rounded-lg border border-purple-500/30 bg-purple-900/10 px-3 py-2">
+              <div className="text-[10px] uppercase tracking-wider text-purple-300 mb-1">System · ~{formatTokens(estimateTokens(systemPrompt))}</div>
+              <div className="whitespace-pre-wrap text-gray-300">{systemPrompt}</div>
+            </div>
+          )}
+          {plan.turns.map((turn, index) => (
+            <div
+              key={index}
+              className={`rounded-lg border px-3 py-2 ${
+                turn.kind === 'summary' ? 'border-amber-500/30 bg-amber-900/10'
+                : turn.kind === 'omitted' ? 'border-gray-700 border-dashed bg-transparent'
+                : turn.role === 'user' ? 'border-indigo-500/30 bg-indigo-900/10'
+                : 'border-gray-700 bg-gray-850'
+              } ${turn.isPending ? 'opacity-60' : ''}`}
+            >
+              <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1 flex gap-2">
+                <span>{turn.role}</span>
+                {KIND_LABELS[turn.kind] && <span className="text-amber-300/80">{KIND_LABELS[turn.kind]}</span>}
+                <span className="ml-auto normal-case tracking-normal">~{formatTokens(estimateTokens(turn.text))}</span>
+              </div>
+              <div className="whitespace-pre-wrap text-gray-300 break-words max-h-48 overflow-y-auto">{turn.text}</div>
+            </div>
+          ))}
+          <div className="rounded-lg border border-indigo-500 bg-indigo-600/20 px-3 py-2">
+            <div className="text-[10px] uppercase tracking-wider text-indigo-300 mb-1">user · next message</div>
+            <div className="whitespace-pre-wrap text-gray-200 break-words">
+              {pendingMessage || <span className="italic text-gray-500">Type in the input bar to preview your message here.</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
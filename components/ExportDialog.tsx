@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Column } from '../types';
+import {
+  ExportFormat,
+  ExportOptions,
+  ExportScope,
+  downloadTextFile,
+  exportToMarkdown,
+  markdownToHtmlDocument,
+  toFileName
+} from '../services/exportService';
+
+interface ExportDialogProps {
+  columns: Column[];
+  columnId: string; // Column the path and subtree scopes start from
+  documentTitle: string;
+  onExportCanvas: () => void; // Full canvas as a re-importable JSON file
+  onExportImage: () => void; // Switches to the SVG/PNG export of the node graph
+  onClose: () => void;
+}
+
+const SCOPES: { id: ExportScope; label: string; description: string }[] = [
+  { id: 'path', label: 'This branch', description: 'The conversation leading to the selected column' },
+  { id: 'subtree', label: 'Subtree', description: 'The selected column and every branch below it' },
+  { id: 'tree', label: 'Whole tree', description: 'Every column on the canvas' }
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ columns, columnId, documentTitle, onExportCanvas, onExportImage, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({ scope: 'path', includePrompts: true, includeTimestamps: false });
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [copied, setCopied] = useState(false);
+
+  const markdown = useMemo(() => exportToMarkdown(columnId, columns, options), [columnId, columns, options]);
+  const selectedTitle = columns.find(c => c.id === columnId)?.title || documentTitle;
+  const title = options.scope === 'tree' ? documentTitle : selectedTitle;
+
+  const handleDownload = () => {
+    if (format === 'markdown') {
+      downloadTextFile(toFileName(title, 'md'), markdown, 'text/markdown');
+    } else {
+      downloadTextFile(toFileName(title, 'html'), markdownToHtmlDocument(markdown, title), 'text/html');
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(markdown);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh]"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white">Export</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 min-h-0">
+          <div className="grid grid-cols-3 gap-2">
+            {SCOPES.map(scope => (
+              <button
+                key={scope.id}
+                onClick={() => setOptions(prev => ({ ...prev, scope: scope.id }))}
+                className={`text-left rounded-lg border px-3 py-2 transition-colors ${
+                  options.scope === scope.id
+                    ? 'border-indigo-500 bg-indigo-900/30 text-white'
+                    : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                <div className="text-xs font-semibold">{scope.label}</div>
+                <div className="text-[10px] text-gray-500 mt-0.5">{scope.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-5 text-xs text-gray-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includePrompts}
+                onChange={(e) => setOptions(prev => ({ ...prev, includePrompts: e.target.checked }))}
+              />
+              Include my prompts
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includeTimestamps}
+                onChange={(e) => setOptions(prev => ({ ...prev, includeTimestamps: e.target.checked }))}
+              />
+              Include timestamps
+            </label>
+            <div className="ml-auto flex items-center bg-gray-800 rounded-md p-0.5">
+              {(['markdown', 'html'] as ExportFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`px-2.5 py-1 rounded ${format === f ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {f === 'markdown' ? 'Markdown' : 'HTML'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <pre className="flex-1 min-h-[12rem] overflow-auto bg-gray-950 border border-gray-800 rounded-lg p-3 text-[11px] text-gray-300 whitespace-pre-wrap font-mono">
+            {markdown}
+          </pre>
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex justify-end gap-2">
+          <button
+            onClick={onExportCanvas}
+            className="text-xs text-gray-400 hover:text-white px-3 py-2"
+            title="Everything on the canvas, including layout and camera, as a file that can be imported again"
+          >
+            Download canvas (.json)
+          </button>
+          <button
+            onClick={onExportImage}
+            className="mr-auto text-xs text-gray-400 hover:text-white px-3 py-2"
+            title="The node graph as it appears on the canvas, for slides and documents"
+          >
+            Image (SVG/PNG)...
+          </button>
+          <button onClick={handleCopy} className="text-xs text-gray-400 hover:text-white px-3 py-2">
+            {copied ? 'Copied' : 'Copy Markdown'}
+          </button>
+          <button onClick={handleDownload} className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium px-4 py-2 rounded-md">
+            Download .{format === 'markdown' ? 'md' : 'html'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface FoldMenuProps {
+  maxDepth: number; // Deepest branch level in the tree
+  foldedCount: number; // Columns whose subtree is folded right now
+  onFoldBelow: (depth: number) => void;
+  onUnfoldAll: () => void;
+}
+
+export const FoldMenu: React.FC<FoldMenuProps> = ({ maxDepth, foldedCount, onFoldBelow, onUnfoldAll }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const depths = Array.from({ length: maxDepth }, (_, i) => i);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`transition-colors ${isOpen ? 'text-white' : 'hover:text-white'}`}
+        title="Hide whole subtrees to make large trees manageable"
+      >
+        Fold{foldedCount > 0 ? ` (${foldedCount})` : ''}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-3 w-56 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-2 flex flex-col gap-1 text-xs text-gray-300 z-50">
+          <div className="px-2 pt-1 pb-1.5 text-[11px] text-gray-500">Show levels up to</div>
+          {depths.length === 0 && <div className="px-2 pb-1 text-gray-600 italic">No branches to fold yet.</div>}
+          <div className="flex flex-wrap gap-1 px-1">
+            {depths.map(depth => (
+              <button
+                key={depth}
+                onClick={() => { onFoldBelow(depth); setIsOpen(false); }}
+                className="min-w-[2rem] px-2 py-1 rounded-md bg-gray-800 hover:bg-indigo-600 hover:text-white border border-gray-700"
+                title={depth === 0 ? 'Only the root thread' : `Root and ${depth} ${depth === 1 ? 'level' : 'levels'} of branches`}
+              >
+                {depth}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => { onUnfoldAll(); setIsOpen(false); }}
+            disabled={foldedCount === 0}
+            className="mt-1 text-left px-2 py-1.5 rounded-md hover:bg-white/5 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            Unfold all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CanvasImageOptions,
+  CanvasSnapshot,
+  ImageDetail,
+  ImageScope,
+  ImageTheme,
+  rasterizeSvg,
+  renderCanvasSvg
+} from '../services/canvasImageService';
+import { downloadBlob, downloadTextFile, toFileName } from '../services/exportService';
+
+interface ImageExportDialogProps {
+  snapshot: CanvasSnapshot;
+  documentTitle: string;
+  onClose: () => void;
+}
+
+const SCOPES: { id: ImageScope; label: string; description: string }[] = [
+  { id: 'tree', label: 'Whole tree', description: 'Every column on the canvas' },
+  { id: 'viewport', label: 'Visible area', description: 'Exactly what is on screen now' },
+  { id: 'subtree', label: 'Subtree', description: 'The selected column and every branch below it' }
+];
+
+const Toggle = <T extends string>({ value, options, onChange }: {
+  value: T;
+  options: { id: T; label: string }[];
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex items-center bg-gray-800 rounded-md p-0.5">
+    {options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`px-2.5 py-1 rounded ${value === option.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ snapshot, documentTitle, onClose }) => {
+  const [options, setOptions] = useState<CanvasImageOptions>({ scope: 'tree', detail: 'titles', theme: 'dark' });
+  const [isRasterizing, setIsRasterizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const image = useMemo(() => renderCanvasSvg(snapshot, options), [snapshot, options]);
+  const previewUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`, [image]);
+  const selectedTitle = snapshot.columns.find(c => c.id === snapshot.columnId)?.title || documentTitle;
+  const title = options.scope === 'subtree' ? selectedTitle : documentTitle;
+
+  const handleDownloadPng = async () => {
+    setIsRasterizing(true);
+    setError(null);
+    try {
+      downloadBlob(toFileName(title, 'png'), await rasterizeSvg(image));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRasterizing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh]"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white">Export image</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 min-h-0">
+          <div className="grid grid-cols-3 gap-2">
+            {SCOPES.map(scope => (
+              <button
+                key={scope.id}
+                onClick={() => setOptions(prev => ({ ...prev, scope: scope.id }))}
+                className={`text-left rounded-lg border px-3 py-2 transition-colors ${
+                  options.scope === scope.id
+                    ? 'border-indigo-500 bg-indigo-900/30 text-white'
+                    : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                <div className="text-xs font-semibold">{scope.label}</div>
+                <div className="text-[10px] text-gray-500 mt-0.5">{scope.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 text-xs text-gray-300">
+            <Toggle<ImageDetail>
+              value={options.detail}
+              options={[{ id: 'titles', label: 'Titles only' }, { id: 'full', label: 'Full text' }]}
+              onChange={(detail) => setOptions(prev => ({ ...prev, detail }))}
+            />
+            <Toggle<ImageTheme>
+              value={options.theme}
+              options={[{ id: 'dark', label: 'Dark' }, { id: 'light', label: 'Light' }]}
+              onChange={(theme) => setOptions(prev => ({ ...prev, theme }))}
+            />
+            <span className="ml-auto text-gray-500 tabular-nums">{image.width} × {image.height}</span>
+          </div>
+
+          <div className="flex-1 min-h-[12rem] overflow-auto bg-gray-950 border border-gray-800 rounded-lg p-3 flex items-center justify-center">
+            <img src={previewUrl} alt="Canvas preview" className="max-w-full max-h-[50vh] object-contain" />
+          </div>
+
+          {error && (
+            <div className="text-xs bg-red-500/10 border border-red-500/40 text-red-300 rounded-lg px-3 py-2">{error}</div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex justify-end gap-2">
+          <button
+            onClick={() => downloadTextFile(toFileName(title, 'svg'), image.svg, 'image/svg+xml')}
+            className="text-xs text-gray-400 hover:text-white px-3 py-2"
+          >
+            Download .svg
+          </button>
+          <button
+            onClick={handleDownloadPng}
+            disabled={isRasterizing}
+            className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+          >
+            {isRasterizing ? 'Rendering...' : 'Download .png'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
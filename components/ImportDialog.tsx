@@ -0,0 +1,177 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Column } from '../types';
+import { CANVAS_FILE_FORMAT, CanvasFile, parseCanvasFile } from '../services/canvasFileService';
+import { CHAT_IMPORT_SOURCE_LABELS, ChatImport, conversationToCanvasFile, importChatFile } from '../services/chatImportService';
+
+interface ImportDialogProps {
+  targetColumn?: Column; // Column to graft under; omitted when there is no open canvas
+  onOpenAsSession: (file: CanvasFile) => void;
+  onGraft: (file: CanvasFile, columnId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const preview = (text: string) => text.length > 60 ? `${text.substring(0, 60)}...` : text;
+
+const isCanvasFile = (text: string) => {
+  try {
+    return JSON.parse(text)?.format === CANVAS_FILE_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ targetColumn, onOpenAsSession, onGraft, onClose }) => {
+  const [canvasFile, setCanvasFile] = useState<CanvasFile | null>(null);
+  const [chatImport, setChatImport] = useState<ChatImport | null>(null);
+  const [conversationIndex, setConversationIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [targetMessageId, setTargetMessageId] = useState<string>(
+    () => targetColumn?.messages[targetColumn.messages.length - 1]?.id ?? ''
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    setCanvasFile(null);
+    setChatImport(null);
+    setConversationIndex(0);
+    try {
+      const text = await picked.text();
+      // Anything that isn't a DeepDive canvas goes through the chat importers
+      if (isCanvasFile(text)) {
+        setCanvasFile(parseCanvasFile(text));
+      } else {
+        setChatImport(importChatFile(picked.name, text));
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const file = useMemo(
+    () => chatImport ? conversationToCanvasFile(chatImport.conversations[conversationIndex]) : canvasFile,
+    [chatImport, conversationIndex, canvasFile]
+  );
+
+  const messageCount = file?.columns.reduce((sum, col) => sum + col.messages.length, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white">Import</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 text-xs">
+          <input ref={fileInputRef} type="file" accept="application/json,.json,.md,.markdown,.txt,text/markdown,text/plain" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border border-dashed border-gray-600 hover:border-indigo-500 rounded-lg px-4 py-6 text-gray-400 hover:text-white transition-colors"
+          >
+            {file
+              ? <><span className="font-semibold text-white">{file.name}</span> · {file.columns.length} columns, {messageCount} messages</>
+              : 'Choose a file...'}
+          </button>
+          {!file && !error && (
+            <div className="text-[11px] text-gray-500 -mt-2">
+              DeepDive canvas files, ChatGPT exports (conversations.json), Google AI Studio prompts,
+              Gemini Apps activity from Google Takeout (MyActivity.json) and Markdown transcripts.
+            </div>
+          )}
+
+          {chatImport && (
+            <div className="flex flex-col gap-2">
+              <div className="text-gray-400">
+                Read as <span className="text-gray-200">{CHAT_IMPORT_SOURCE_LABELS[chatImport.source]}</span>
+                {chatImport.conversations.length > 1 && ` · ${chatImport.conversations.length} conversations`}
+              </div>
+              {chatImport.conversations.length > 1 && (
+                <select
+                  value={conversationIndex}
+                  onChange={(e) => setConversationIndex(Number(e.target.value))}
+                  className="bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500"
+                >
+                  {chatImport.conversations.map((conversation, index) => (
+                    <option key={index} value={index}>
+                      {preview(conversation.title)} · {new Date(conversation.createdAt).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {chatImport.problems.length > 0 && (
+                <details className="bg-amber-500/10 border border-amber-500/30 text-amber-200 rounded-lg px-3 py-2">
+                  <summary className="cursor-pointer">
+                    {chatImport.problems.length} {chatImport.problems.length === 1 ? 'record was' : 'records were'} skipped or only partly imported
+                  </summary>
+                  <ul className="mt-2 flex flex-col gap-1 max-h-40 overflow-y-auto text-[11px] text-amber-100/80">
+                    {chatImport.problems.map((problem, index) => <li key={index}>{problem}</li>)}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/40 text-red-300 rounded-lg px-3 py-2 break-words">{error}</div>
+          )}
+
+          {file && (
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => onOpenAsSession(file)}
+                className="text-left rounded-lg border border-gray-700 hover:border-indigo-500 px-3 py-2 transition-colors"
+              >
+                <div className="font-semibold text-gray-200">Open as a new exploration</div>
+                <div className="text-[11px] text-gray-500 mt-0.5">Keeps the layout, camera and selection from the file.</div>
+              </button>
+
+              {targetColumn && (
+                <div className="rounded-lg border border-gray-700 px-3 py-2 flex flex-col gap-2">
+                  <div>
+                    <div className="font-semibold text-gray-200">Graft under a message</div>
+                    <div className="text-[11px] text-gray-500 mt-0.5">
+                      The imported tree becomes a branch of "{targetColumn.title}".
+                    </div>
+                  </div>
+                  {targetColumn.messages.length === 0 ? (
+                    <div className="text-gray-500 italic">The selected column has no messages yet.</div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={targetMessageId}
+                        onChange={(e) => setTargetMessageId(e.target.value)}
+                        className="flex-1 min-w-0 bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500"
+                      >
+                        {targetColumn.messages.map((msg, index) => (
+                          <option key={msg.id} value={msg.id}>
+                            {index + 1}. {msg.role === 'user' ? 'You' : 'AI'}: {preview(msg.text) || '(empty)'}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => onGraft(file, targetColumn.id, targetMessageId)}
+                        disabled={!targetMessageId}
+                        className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-md px-3 py-1.5 disabled:opacity-50"
+                      >
+                        Graft
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LAYOUT_MODES, LayoutMode } from '../services/layoutService';
+
+interface LayoutMenuProps {
+  mode: LayoutMode;
+  movedCount: number; // Columns dragged away from their place in the layout
+  onChangeMode: (mode: LayoutMode) => void;
+  onAutoArrange?: (keepMovedBranches: boolean) => void; // Omitted while the canvas is read-only
+}
+
+export const LayoutMenu: React.FC<LayoutMenuProps> = ({ mode, movedCount, onChangeMode, onAutoArrange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`transition-colors ${isOpen ? 'text-white' : 'hover:text-white'}`}
+        title="Choose how the tree is arranged on the canvas"
+      >
+        Layout
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-3 w-64 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-2 flex flex-col gap-1 text-xs text-gray-300 z-50">
+          {LAYOUT_MODES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => { onChangeMode(option.id); setIsOpen(false); }}
+              className={`text-left px-2 py-1.5 rounded-md ${option.id === mode ? 'bg-indigo-600/30 text-white' : 'hover:bg-white/5 hover:text-white'}`}
+            >
+              <div className="font-medium">{option.label}</div>
+              <div className="text-[11px] text-gray-500">{option.description}</div>
+            </button>
+          ))}
+          {onAutoArrange && (
+            <>
+              <div className="h-px bg-gray-800 my-1" />
+              <button
+                onClick={() => { onAutoArrange(false); setIsOpen(false); }}
+                disabled={movedCount === 0}
+                className="text-left px-2 py-1.5 rounded-md hover:bg-white/5 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Put every card back where the layout places it"
+              >
+                Auto-arrange{movedCount > 0 ? ` (${movedCount} moved)` : ''}
+              </button>
+              <button
+                onClick={() => { onAutoArrange(true); setIsOpen(false); }}
+                disabled={movedCount === 0}
+                className="text-left px-2 py-1.5 rounded-md hover:bg-white/5 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Keep dragged branches where they are, but lay out the cards inside them"
+              >
+                Tidy inside moved branches
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
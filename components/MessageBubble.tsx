@@ -1,28 +1,99 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
-import { Message, Column } from '../types';
+import type { PluggableList } from 'unified';
+import { Message, Column, TextQuoteSelector } from '../types';
+import { GenerationOptions } from '../services/llmProvider';
+import { getActiveVariantId } from '../services/variantService';
+import { BranchAction, BranchChoice, normalizeShortcut, shortcutFromEvent } from '../services/branchActionService';
+import { findTermRanges } from '../services/searchService';
+import { BranchAnchor, createTextQuoteSelector, rehypeBranchAnchors, rehypeSearchHighlight } from '../services/textAnchorService';
+import { VariantControls } from './VariantControls';
 
 interface MessageBubbleProps {
   message: Message;
   columnId: string;
-  onBranch: (text: string, messageId: string, customPrompt?: string) => void;
+  onBranch: (text: string, messageId: string, customPrompt?: string, action?: BranchAction, anchor?: TextQuoteSelector) => void;
+  onFanOut: (text: string, messageId: string, choices: BranchChoice[], anchor?: TextQuoteSelector) => void;
+  branchActions: BranchAction[];
+  onRetry?: (messageId: string) => void; // Omitted while the column is generating
+  onRegenerate?: (messageId: string, options?: GenerationOptions) => void; // Omitted while the column is generating
+  onSelectVariant: (messageId: string, variantId: string) => void;
+  onSelectBranch?: (columnId: string) => void; // Clicking a highlight selects the branch it starts
+  onEdit?: (messageId: string, newText: string) => void; // User messages only: saving forks a new timeline
   isLatestModel: boolean;
-  childColumns?: Column[]; // Columns that branched off from this message
+  childColumns?: Column[]; // Columns that branched off from this message (any variant)
+  searchTerms?: string[]; // Set on the message a search result jumped to; matches are marked
 }
 
+/**
+ * Id of the highlighted span a branch's connector starts from. Branches fanned out
+ * together share a single highlight.
+ */
+export const getSourceAnchorId = (column: Column) =>
+  column.clusterId ? `source-cluster-${column.clusterId}` : `source-${column.id}`;
+
+const NO_TERMS: string[] = [];
+
+const MARKDOWN_COMPONENTS: Components = {
+  a: ({ node, ...props }) => <a target="_blank" rel="noopener noreferrer" {...props} />
+};
+
+// User messages are plain text; model replies are marked by `rehypeSearchHighlight`
+const highlightSearchTerms = (text: string, terms: string[]): React.ReactNode[] => {
+  if (terms.length === 0) return [text];
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  findTermRanges(text, terms).forEach(range => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(<mark key={`search-${range.start}`} className="search-highlight">{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+};
+
+/**
+ * Text-quote selector for a selection inside `container`, with offsets into its rendered text.
+ * Undefined if the selection reaches outside the container.
+ */
+const getSelectionAnchor = (container: HTMLElement, range: Range): TextQuoteSelector | undefined => {
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return undefined;
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const raw = range.toString();
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  const start = before.toString().length + (raw.length - raw.trimStart().length);
+  return createTextQuoteSelector(container.textContent ?? '', start, start + trimmed.length);
+};
+
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ 
   message, 
   columnId, 
   onBranch,
+  onFanOut,
+  branchActions,
+  onRetry,
+  onRegenerate,
+  onSelectVariant,
+  onSelectBranch,
+  onEdit,
   isLatestModel,
-  childColumns = []
+  childColumns: allChildColumns = [],
+  searchTerms = NO_TERMS
 }) => {
-  const [selection, setSelection] = useState<{ x: number, y: number, text: string } | null>(null);
+  const [selection, setSelection] = useState<{ x: number, y: number, text: string, anchor?: TextQuoteSelector } | null>(null);
   const [inputMode, setInputMode] = useState(false);
   const [customQuery, setCustomQuery] = useState('');
+  const [fanOutMode, setFanOutMode] = useState(false);
+  const [fanOutActionIds, setFanOutActionIds] = useState<Set<string>>(new Set());
+  const [fanOutQuestions, setFanOutQuestions] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [editDraft, setEditDraft] = useState('');
   const textRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -39,10 +110,14 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
       setSelection({
         x: rect.left + (rect.width / 2),
         y: rect.top,
-        text: text
+        text: text,
+        anchor: getSelectionAnchor(textRef.current, range)
       });
       setInputMode(false);
       setCustomQuery('');
+      setFanOutMode(false);
+      setFanOutActionIds(new Set());
+      setFanOutQuestions('');
     }
   };
 
@@ -70,134 +145,127 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     }
   }, [inputMode]);
 
-  const handleDeepDive = (e: React.MouseEvent) => {
-    e.stopPropagation();
+  const runAction = (action: BranchAction) => {
     if (selection) {
-      onBranch(selection.text, message.id);
+      onBranch(selection.text, message.id, undefined, action, selection.anchor);
       setSelection(null);
       window.getSelection()?.removeAllRanges();
     }
   };
 
+  // Action shortcuts are live only while this bubble's tooltip is showing its buttons
+  useEffect(() => {
+    if (!selection || inputMode || fanOutMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setSelection(null);
+        return;
+      }
+      // Keys typed into a text field (reached with Tab, say) are text, not actions
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+      const pressed = shortcutFromEvent(e);
+      const action = branchActions.find(a => a.shortcut && normalizeShortcut(a.shortcut) === pressed);
+      if (action) {
+        e.preventDefault();
+        runAction(action);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleCustomAskSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (selection && customQuery.trim()) {
-      onBranch(selection.text, message.id, customQuery);
+      onBranch(selection.text, message.id, customQuery, undefined, selection.anchor);
       setSelection(null);
       window.getSelection()?.removeAllRanges();
     }
   };
 
-  const isUser = message.role === 'user';
+  const toggleFanOutAction = (id: string) => {
+    setFanOutActionIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
 
-  // Custom renderer logic to highlight snippets recursively
-  const components = useMemo(() => {
-    if (childColumns.length === 0) return undefined;
+  const fanOutChoices: BranchChoice[] = [
+    ...branchActions.filter(a => fanOutActionIds.has(a.id)).map(action => ({ action })),
+    ...fanOutQuestions.split('\n').map(q => q.trim()).filter(Boolean).map(customPrompt => ({ customPrompt }))
+  ];
 
-    const processText = (text: string): React.ReactNode[] => {
-      if (!text) return [text];
-      
-      // Find all matches
-      const matches: {start: number, end: number, colId: string}[] = [];
-      
-      childColumns.forEach(col => {
-          if (!col.contextSnippet) return;
-          const snippet = col.contextSnippet.trim();
-          if (!snippet) return;
+  const handleFanOutSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selection && fanOutChoices.length > 0) {
+      onFanOut(selection.text, message.id, fanOutChoices, selection.anchor);
+      setSelection(null);
+      window.getSelection()?.removeAllRanges();
+    }
+  };
 
-          // Simple substring match
-          let idx = text.indexOf(snippet);
-          while (idx !== -1) {
-             // Ensure we don't already have an overlapping match (greedy, first come first serve for MVP)
-             const isOverlapping = matches.some(m => 
-                 (idx >= m.start && idx < m.end) || (idx + snippet.length > m.start && idx + snippet.length <= m.end)
-             );
-             
-             if (!isOverlapping) {
-                 matches.push({
-                     start: idx,
-                     end: idx + snippet.length,
-                     colId: col.id
-                 });
-             }
-             idx = text.indexOf(snippet, idx + 1);
-          }
-      });
-      
-      if (matches.length === 0) return [text];
-      
-      matches.sort((a, b) => a.start - b.start);
-      
-      const parts: React.ReactNode[] = [];
-      let cursor = 0;
-      
-      matches.forEach(match => {
-          if (match.start > cursor) {
-              parts.push(text.slice(cursor, match.start));
-          }
-          
-          parts.push(
-              <span 
-                  key={match.colId} 
-                  id={`source-${match.colId}`}
-                  className="source-highlight"
-              >
-                  {text.slice(match.start, match.end)}
-              </span>
-          );
-          cursor = match.end;
-      });
-      
-      if (cursor < text.length) {
-          parts.push(text.slice(cursor));
-      }
-      
-      return parts;
-    };
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditDraft(message.text);
+    setIsEditing(true);
+  };
 
-    const recursiveRenderer = ({ node, children, ...props }: any) => {
-       const Tag = node.tagName as any;
-       
-       // Process children recursively
-       const processedChildren = React.Children.map(children, (child) => {
-           if (typeof child === 'string') {
-               return processText(child);
-           }
-           // If child is a React element (e.g. from nested markdown), it's opaque here in 'children' array usually?
-           // Actually ReactMarkdown passes already-rendered children. 
-           // We apply the renderer to all container types so it flows down.
-           return child;
-       });
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onEdit && editDraft.trim() && editDraft !== message.text) {
+      onEdit(message.id, editDraft);
+    }
+    setIsEditing(false);
+  };
 
-       return <Tag {...props}>{processedChildren}</Tag>;
-    };
+  const isUser = message.role === 'user';
 
-    // Apply to common text containers, including headers, tables, lists, and code blocks
-    return {
-        p: recursiveRenderer,
-        li: recursiveRenderer,
-        ul: recursiveRenderer,
-        ol: recursiveRenderer,
-        strong: recursiveRenderer,
-        em: recursiveRenderer,
-        span: recursiveRenderer,
-        blockquote: recursiveRenderer,
-        h1: recursiveRenderer,
-        h2: recursiveRenderer,
-        h3: recursiveRenderer,
-        h4: recursiveRenderer,
-        h5: recursiveRenderer,
-        h6: recursiveRenderer,
-        td: recursiveRenderer,
-        th: recursiveRenderer,
-        code: recursiveRenderer,
-        pre: recursiveRenderer,
-        a: ({node, ...props}: any) => <a target="_blank" rel="noopener noreferrer" {...props} />
-    };
-  }, [childColumns]);
+  // Only branches spawned from the variant on screen are anchored in the text
+  const activeVariantId = getActiveVariantId(message);
+  const childColumns = useMemo(
+    () => allChildColumns.filter(c => (c.parentVariantId ?? message.id) === activeVariantId),
+    [allChildColumns, activeVariantId, message.id]
+  );
+  const branchCountByVariant = useMemo(() => {
+    const counts = new Map<string, number>();
+    allChildColumns.forEach(c => {
+      const variantId = c.parentVariantId ?? message.id;
+      counts.set(variantId, (counts.get(variantId) || 0) + 1);
+    });
+    return counts;
+  }, [allChildColumns, message.id]);
+
+  // The innermost highlight under the click wins, so nested branches stay reachable
+  const handleClick = (e: React.MouseEvent) => {
+    if (!onSelectBranch || !window.getSelection()?.isCollapsed) return;
+    const highlight = (e.target as HTMLElement).closest<HTMLElement>('[data-branch-column]');
+    if (!highlight?.dataset.branchColumn) return;
+    e.stopPropagation();
+    onSelectBranch(highlight.dataset.branchColumn);
+  };
+
+  // Branch anchors and search matches are marked in the rendered tree, so a highlight can span
+  // formatting, list items or table cells, and highlights can nest and overlap.
+  const rehypePlugins = useMemo(() => {
+    // Fanned-out siblings share one anchor, so group by anchor id first
+    const anchors = new Map<string, BranchAnchor>();
+    childColumns.forEach(col => {
+      const selector = col.sourceAnchor ?? (col.contextSnippet?.trim() ? { exact: col.contextSnippet.trim() } : null);
+      if (!selector) return;
+      const id = getSourceAnchorId(col);
+      const existing = anchors.get(id);
+      anchors.set(id, { id, columnId: existing?.columnId ?? col.id, selector: existing?.selector ?? selector, count: (existing?.count ?? 0) + 1 });
+    });
+
+    const plugins: PluggableList = [rehypeHighlight];
+    if (anchors.size > 0) plugins.push([rehypeBranchAnchors, { anchors: Array.from(anchors.values()) }]);
+    if (searchTerms.length > 0) plugins.push([rehypeSearchHighlight, { terms: searchTerms }]);
+    return plugins;
+  }, [childColumns, searchTerms]);
 
   return (
-    <div className={`flex w-full mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div className={`group/message flex w-full mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div 
         className={`relative px-3 py-2.5 rounded-xl text-sm leading-relaxed shadow-lg
           ${isUser 
@@ -208,21 +276,84 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
         <div 
           ref={textRef}
           onMouseUp={!isUser ? handleMouseUp : undefined}
+          onClick={!isUser ? handleClick : undefined}
           className="prose prose-invert prose-sm max-w-none break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0 cursor-text"
         >
-          {isUser ? (
-             <div className="whitespace-pre-wrap font-sans">{message.text}</div>
-          ) : (
+          {isUser && isEditing ? (
+             <form onSubmit={handleEditSubmit} onMouseDown={(e) => e.stopPropagation()} className="flex flex-col gap-2 min-w-[260px]">
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setIsEditing(false);
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleEditSubmit(e);
+                  }}
+                  rows={Math.min(8, editDraft.split('\n').length + 1)}
+                  className="w-full bg-indigo-900/60 text-white text-sm border border-indigo-300/40 rounded-md px-2 py-1.5 outline-none focus:border-white/70 resize-y font-sans"
+                  autoFocus
+                />
+                <div className="flex items-center justify-end gap-2 text-xs">
+                  <span className="mr-auto text-indigo-200/70 text-[10px]">Saves as a new timeline</span>
+                  <button type="button" onClick={() => setIsEditing(false)} className="text-indigo-100/80 hover:text-white px-2 py-1">Cancel</button>
+                  <button type="submit" className="bg-white/15 hover:bg-white/25 text-white font-medium rounded px-2.5 py-1">Save &amp; fork</button>
+                </div>
+             </form>
+          ) : isUser ? (
+             <div className="whitespace-pre-wrap font-sans">{highlightSearchTerms(message.text, searchTerms)}</div>
+          ) : !message.text ? null : (
             <ReactMarkdown
               remarkPlugins={[remarkGfm]}
-              rehypePlugins={[rehypeHighlight]}
-              components={components}
+              rehypePlugins={rehypePlugins}
+              components={MARKDOWN_COMPONENTS}
             >
               {message.text}
             </ReactMarkdown>
           )}
         </div>
-        
+
+        {isUser && onEdit && !isEditing && (
+          <button
+            onClick={startEditing}
+            className="absolute -left-7 top-1.5 text-gray-500 hover:text-white p-1 rounded-full hover:bg-white/5 opacity-0 group-hover/message:opacity-100 transition-opacity"
+            title="Edit and fork from here"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+          </button>
+        )}
+
+        {(message.status === 'failed' || message.status === 'cancelled') && (
+          <div
+            className={`flex items-start gap-2 text-xs rounded-lg px-2.5 py-2 ${message.text ? 'mt-2' : ''} ${
+              message.status === 'failed'
+                ? 'bg-red-500/10 border border-red-500/40 text-red-300'
+                : 'bg-gray-800/80 border border-gray-700 text-gray-400'
+            }`}
+          >
+            <span className="flex-1 break-words">
+              {message.status === 'failed'
+                ? <><span className="font-semibold">Generation failed.</span> {message.error}</>
+                : 'Generation stopped.'}
+            </span>
+            {onRetry && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRetry(message.id); }}
+                className="flex-shrink-0 font-medium text-gray-200 hover:text-white bg-gray-700/60 hover:bg-indigo-600 rounded px-2 py-0.5 transition-colors"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
+        {!isUser && (
+          <VariantControls
+            message={message}
+            branchCountByVariant={branchCountByVariant}
+            onRegenerate={onRegenerate && ((options) => onRegenerate(message.id, options))}
+            onSelectVariant={(variantId) => onSelectVariant(message.id, variantId)}
+          />
+        )}
+
         {/* Tooltip - Using Portal to render at body level to avoid Transform clipping/positioning issues */}
         {selection && !isUser && createPortal(
           <div 
@@ -230,21 +361,70 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             style={{ left: selection.x, top: selection.y - 12 }}
             onMouseDown={(e) => e.stopPropagation()} 
           >
-            <div className="bg-gray-900 border border-gray-600 rounded-lg shadow-2xl p-1.5 flex items-center gap-1">
-              {!inputMode ? (
+            <div className="bg-gray-900 border border-gray-600 rounded-lg shadow-2xl p-1.5 flex flex-wrap justify-center items-center gap-1 max-w-[34rem]">
+              {fanOutMode ? (
+                <form onSubmit={handleFanOutSubmit} className="flex flex-col gap-2 p-1 w-80">
+                  <div className="text-[10px] uppercase tracking-wider text-gray-500">Branch several ways at once</div>
+                  <div className="flex flex-wrap gap-1">
+                    {branchActions.map(action => (
+                      <button
+                        key={action.id}
+                        type="button"
+                        onClick={() => toggleFanOutAction(action.id)}
+                        className={`text-xs py-1 px-2 rounded-md border transition-colors whitespace-nowrap ${
+                          fanOutActionIds.has(action.id)
+                            ? 'bg-indigo-600/40 border-indigo-500 text-white'
+                            : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                        }`}
+                      >
+                        {action.icon} {action.label}
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={fanOutQuestions}
+                    onChange={(e) => setFanOutQuestions(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleFanOutSubmit(e); }}
+                    placeholder="Extra questions, one per line"
+                    rows={3}
+                    className="bg-gray-800 text-white text-xs border border-gray-600 rounded px-2 py-1 outline-none focus:border-indigo-500 resize-none"
+                  />
+                  <div className="flex items-center justify-end gap-2 text-xs">
+                    <button type="button" onClick={() => setFanOutMode(false)} className="text-gray-400 hover:text-white px-2 py-1">Back</button>
+                    <button
+                      type="submit"
+                      disabled={fanOutChoices.length === 0}
+                      className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded px-2.5 py-1 disabled:opacity-50"
+                    >
+                      Create {fanOutChoices.length || ''} {fanOutChoices.length === 1 ? 'branch' : 'branches'}
+                    </button>
+                  </div>
+                </form>
+              ) : !inputMode ? (
                 <>
+                  {branchActions.map(action => (
+                    <button
+                      key={action.id}
+                      onClick={(e) => { e.stopPropagation(); runAction(action); }}
+                      className="hover:bg-indigo-600 text-gray-200 hover:text-white text-xs font-medium py-1.5 px-2.5 rounded-md transition-colors flex items-center gap-1.5 whitespace-nowrap"
+                      title={action.shortcut ? `${action.label} (${action.shortcut})` : action.label}
+                    >
+                      {action.icon && <span>{action.icon}</span>} {action.label}
+                    </button>
+                  ))}
+                  {branchActions.length > 0 && <div className="w-[1px] h-4 bg-gray-700 mx-0.5"></div>}
                   <button
-                    onClick={handleDeepDive}
-                    className="hover:bg-indigo-600 text-gray-200 hover:text-white text-xs font-medium py-1.5 px-3 rounded-md transition-colors flex items-center gap-1.5"
+                    onClick={() => setInputMode(true)}
+                    className="hover:bg-gray-700 text-gray-200 text-xs font-medium py-1.5 px-3 rounded-md transition-colors flex items-center gap-1.5"
                   >
-                    <span className="text-indigo-400 group-hover:text-white">✨</span> Deep Dive
+                    <span>💬</span> Ask...
                   </button>
-                  <div className="w-[1px] h-4 bg-gray-700 mx-0.5"></div>
                   <button
-                    onClick={() => setInputMode(true)}
+                    onClick={() => setFanOutMode(true)}
                     className="hover:bg-gray-700 text-gray-200 text-xs font-medium py-1.5 px-3 rounded-md transition-colors flex items-center gap-1.5"
+                    title="Create several parallel branches from this selection"
                   >
-                    <span>💬</span> Ask...
+                    <span>⑂</span> Fan out...
                   </button>
                 </>
               ) : (
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Column } from '../types';
+import { Layout } from '../services/layoutService';
+import { getSubtreeIds } from '../services/foldService';
+
+interface MinimapProps {
+  columns: Column[];
+  layout: Layout;
+  nodeOffsets: Map<string, {x: number, y: number}>;
+  pan: {x: number, y: number};
+  scale: number;
+  viewportSize: {w: number, h: number};
+  selectedColumnId: string;
+  onCenterOn: (worldX: number, worldY: number) => void; // Pans the canvas so this point is in the middle
+  onZoom: (deltaY: number) => void; // Zooms the canvas around its center, like the wheel does
+}
+
+type MinimapScope = 'overview' | 'subtree';
+
+// Minimap dimensions
+const MAP_W = 200;
+const MAP_H = 150;
+const PADDING = 500; // World units around the nodes
+
+const COLORS = {
+  node: 'rgba(99, 102, 241, 0.5)', // Indigo-500
+  selected: '#e0e7ff', // Indigo-100
+  thinking: '#fbbf24', // Amber-400
+  collapsed: 'rgba(129, 140, 248, 0.8)', // Indigo-400
+  folded: '#a5b4fc' // Indigo-300
+};
+
+/**
+ * Overview of the canvas. Nodes are drawn on a canvas element that only repaints when the tree
+ * changes, so panning only moves the viewport box. Click or drag to pan, scroll to zoom.
+ */
+export const Minimap: React.FC<MinimapProps> = ({
+  columns,
+  layout,
+  nodeOffsets,
+  pan,
+  scale,
+  viewportSize,
+  selectedColumnId,
+  onCenterOn,
+  onZoom
+}) => {
+  const [scope, setScope] = useState<MinimapScope>('overview');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const columnsById = useMemo(() => new Map(columns.map(col => [col.id, col])), [columns]);
+  // The overview stands in while the selected column isn't on the canvas
+  const shownIds = useMemo(
+    () => scope === 'subtree' && layout.has(selectedColumnId) ? getSubtreeIds(columns, selectedColumnId) : null,
+    [scope, columns, selectedColumnId, layout]
+  );
+
+  // Node boxes in world coordinates, and the map's mapping from world to minimap
+  const view = useMemo(() => {
+    const boxes: { id: string; x: number; y: number; width: number; height: number }[] = [];
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    layout.forEach((pos, id) => {
+      if (shownIds && !shownIds.has(id)) return;
+      const offset = nodeOffsets.get(id) || {x: 0, y: 0};
+      const x = pos.x + offset.x;
+      const y = pos.y + offset.y - (pos.height / 2);
+      boxes.push({ id, x, y, width: pos.width, height: pos.height });
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x + pos.width);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y + pos.height);
+    });
+    if (boxes.length === 0) return null;
+
+    minX -= PADDING;
+    maxX += PADDING;
+    minY -= PADDING;
+    maxY += PADDING;
+    const ratio = Math.min(MAP_W / (maxX - minX), MAP_H / (maxY - minY));
+    return {
+      boxes,
+      minX,
+      minY,
+      ratio,
+      offsetX: (MAP_W - (maxX - minX) * ratio) / 2,
+      offsetY: (MAP_H - (maxY - minY) * ratio) / 2
+    };
+  }, [layout, nodeOffsets, shownIds]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !view) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = MAP_W * dpr;
+    canvas.height = MAP_H * dpr;
+    context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    context.clearRect(0, 0, MAP_W, MAP_H);
+
+    view.boxes.forEach(box => {
+      const col = columnsById.get(box.id);
+      const x = view.offsetX + (box.x - view.minX) * view.ratio;
+      const y = view.offsetY + (box.y - view.minY) * view.ratio;
+      const w = Math.max(1, box.width * view.ratio);
+      const h = Math.max(1, box.height * view.ratio);
+      const color = box.id === selectedColumnId ? COLORS.selected : col?.isThinking ? COLORS.thinking : null;
+
+      // Collapsed cards are outlines; folded ones get a notch on the right for their hidden branches
+      if (col?.isCollapsed) {
+        context.strokeStyle = color ?? COLORS.collapsed;
+        context.lineWidth = 1;
+        context.strokeRect(x + 0.5, y + 0.5, w - 1, Math.max(1, h - 1));
+      } else {
+        context.fillStyle = color ?? COLORS.node;
+        context.fillRect(x, y, w, h);
+      }
+      if (col?.isFolded) {
+        context.fillStyle = COLORS.folded;
+        context.fillRect(x + w + 1, y + h / 2 - 2, 3, 4);
+      }
+    });
+  }, [view, columnsById, selectedColumnId]);
+
+  if (!view) return null;
+
+  const toWorld = (e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: view.minX + (e.clientX - rect.left - view.offsetX) / view.ratio,
+      y: view.minY + (e.clientY - rect.top - view.offsetY) / view.ratio
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    isDraggingRef.current = true;
+    const point = toWorld(e);
+    onCenterOn(point.x, point.y);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isDraggingRef.current) return;
+    if (!(e.buttons & 1)) {
+      isDraggingRef.current = false;
+      return;
+    }
+    const point = toWorld(e);
+    onCenterOn(point.x, point.y);
+  };
+
+  // Viewport in world coords
+  const vpWorldX = -pan.x / scale;
+  const vpWorldY = -pan.y / scale;
+  const vpWorldW = viewportSize.w / scale;
+  const vpWorldH = viewportSize.h / scale;
+
+  return (
+    <div className="absolute top-20 right-6 w-[200px] bg-gray-900/80 border border-gray-700 rounded-lg shadow-2xl backdrop-blur-sm z-50 overflow-hidden select-none">
+       <div
+         className="relative w-full h-[150px] overflow-hidden cursor-pointer"
+         onMouseDown={handleMouseDown}
+         onMouseMove={handleMouseMove}
+         onMouseUp={() => { isDraggingRef.current = false; }}
+         onMouseLeave={() => { isDraggingRef.current = false; }}
+         onWheel={(e) => { e.stopPropagation(); onZoom(e.deltaY); }}
+       >
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+          {/* Viewport Rect */}
+          <div
+            className="absolute border-2 border-white/50 rounded-sm shadow-[0_0_0_1000px_rgba(0,0,0,0.5)] pointer-events-none"
+            style={{
+                left: view.offsetX + (vpWorldX - view.minX) * view.ratio,
+                top: view.offsetY + (vpWorldY - view.minY) * view.ratio,
+                width: vpWorldW * view.ratio,
+                height: vpWorldH * view.ratio
+            }}
+          />
+       </div>
+       <div className="flex border-t border-gray-800 text-[10px]">
+         {(['overview', 'subtree'] as const).map(option => (
+           <button
+             key={option}
+             onClick={() => setScope(option)}
+             className={`flex-1 py-1 transition-colors ${scope === option ? 'text-white bg-white/5' : 'text-gray-500 hover:text-gray-300'}`}
+             title={option === 'overview' ? 'Show the whole tree' : 'Show only the selected column and its branches'}
+           >
+             {option === 'overview' ? 'Overview' : 'Selected branch'}
+           </button>
+         ))}
+       </div>
+    </div>
+  );
+};
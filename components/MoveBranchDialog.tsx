@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { Column } from '../types';
+import { ReattachTarget, getReattachError } from '../services/reattachService';
+
+interface MoveBranchDialogProps {
+  columns: Column[];
+  columnId: string; // The branch being moved
+  onMove: (columnId: string, target: ReattachTarget) => void;
+  onClose: () => void;
+}
+
+const preview = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 120 ? `${flat.substring(0, 120)}...` : flat;
+};
+
+export const MoveBranchDialog: React.FC<MoveBranchDialogProps> = ({ columns, columnId, onMove, onClose }) => {
+  const column = columns.find(c => c.id === columnId);
+  const [filter, setFilter] = useState('');
+  const [target, setTarget] = useState<{ parentId: string; parentMessageId: string } | null>(null);
+  const [snippet, setSnippet] = useState(column?.contextSnippet ?? '');
+
+  // Replies the branch could hang off, each with the reason it can't if so
+  const candidates = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return columns
+      .map(col => ({
+        col,
+        replies: col.messages
+          .filter(m => m.role === 'model' && m.text)
+          .map(msg => ({ msg, error: getReattachError(columns, columnId, col.id, msg.id) }))
+      }))
+      .filter(({ col, replies }) => replies.length > 0 && (!needle
+        || col.title.toLowerCase().includes(needle)
+        || replies.some(({ msg }) => msg.text.toLowerCase().includes(needle))));
+  }, [columns, columnId, filter]);
+
+  const targetText = target
+    ? columns.find(c => c.id === target.parentId)?.messages.find(m => m.id === target.parentMessageId)?.text ?? ''
+    : '';
+  const snippetFound = !snippet.trim() || targetText.includes(snippet.trim());
+  const targetError = target ? getReattachError(columns, columnId, target.parentId, target.parentMessageId) : null;
+
+  const handleMove = () => {
+    if (!target || targetError) return;
+    onMove(columnId, { ...target, contextSnippet: snippet.trim() || null });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[85vh]"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white truncate">Move "{column?.title || 'branch'}" to…</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-3 border-b border-gray-800">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by thread title or reply text"
+            className="w-full bg-gray-800 text-white text-xs border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500"
+            autoFocus
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-3 text-xs">
+          {candidates.length === 0 && <div className="text-gray-500 italic">No replies match.</div>}
+          {candidates.map(({ col, replies }) => (
+            <div key={col.id} className={replies.every(({ error }) => error) ? 'opacity-40' : ''}>
+              <div className="font-semibold text-gray-300 truncate mb-1">{col.title || 'Untitled'}</div>
+              <div className="flex flex-col gap-1">
+                {replies.map(({ msg, error }) => {
+                  const isCurrent = column?.parentId === col.id && column.parentMessageId === msg.id;
+                  const isChosen = target?.parentId === col.id && target.parentMessageId === msg.id;
+                  return (
+                    <button
+                      key={msg.id}
+                      disabled={!!error}
+                      title={error ?? undefined}
+                      onClick={() => setTarget({ parentId: col.id, parentMessageId: msg.id })}
+                      className={`text-left rounded-md px-2 py-1.5 border transition-colors disabled:cursor-not-allowed disabled:opacity-60
+                        ${isChosen ? 'border-indigo-500 bg-indigo-600/20 text-white' : 'border-gray-800 text-gray-400 hover:border-gray-600 hover:text-gray-200'}`}
+                    >
+                      {isCurrent && <span className="text-[10px] text-indigo-300 mr-1">(current)</span>}
+                      {preview(msg.text)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex flex-col gap-2 text-xs">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">Branch from text (optional)</span>
+            <input
+              value={snippet}
+              onChange={(e) => setSnippet(e.target.value)}
+              placeholder="Leave empty to branch from the whole reply"
+              className="bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500"
+            />
+            {target && !snippetFound && (
+              <span className="text-amber-300/90 text-[11px]">This text doesn't appear in the chosen reply, so the connector will start from the card's edge.</span>
+            )}
+          </label>
+          <div className="flex items-center justify-end gap-2">
+            <span className="mr-auto text-gray-500">Its replies will be marked as generated in a different context.</span>
+            <button onClick={onClose} className="text-gray-400 hover:text-white px-3 py-1.5">Cancel</button>
+            <button
+              onClick={handleMove}
+              disabled={!target || !!targetError}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-md px-3 py-1.5 disabled:opacity-50"
+            >
+              Move here
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Column } from '../types';
+
+export type DropPosition = 'before' | 'after';
+
+interface OutlineSidebarProps {
+  columns: Column[];
+  selectedColumnId: string;
+  readOnly: boolean; // A snapshot is shown: no renaming or reordering
+  onSelect: (columnId: string) => void;
+  onRename: (columnId: string, title: string) => void;
+  onReorder: (columnId: string, targetId: string, position: DropPosition) => void; // Only among siblings
+  onClose: () => void;
+}
+
+const hasFailed = (column: Column) => column.messages[column.messages.length - 1]?.status === 'failed';
+
+export const OutlineSidebar: React.FC<OutlineSidebarProps> = ({
+  columns,
+  selectedColumnId,
+  readOnly,
+  onSelect,
+  onRename,
+  onReorder,
+  onClose
+}) => {
+  const [folded, setFolded] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Children in canvas order, which is also the order siblings are laid out in
+  const { roots, childrenOf, byId } = useMemo(() => {
+    const byId = new Map(columns.map(col => [col.id, col]));
+    const childrenOf = new Map<string, Column[]>();
+    const roots: Column[] = [];
+    columns.forEach(col => {
+      if (col.parentId && byId.has(col.parentId)) {
+        childrenOf.set(col.parentId, [...(childrenOf.get(col.parentId) ?? []), col]);
+      } else {
+        roots.push(col);
+      }
+    });
+    return { roots, childrenOf, byId };
+  }, [columns]);
+
+  // Keep the selected column visible: unfold its ancestors and scroll it into view
+  useEffect(() => {
+    const ancestors: string[] = [];
+    let parentId = byId.get(selectedColumnId)?.parentId;
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+    if (ancestors.some(id => folded.has(id))) {
+      setFolded(prev => new Set([...prev].filter(id => !ancestors.includes(id))));
+    }
+    requestAnimationFrame(() => {
+      listRef.current?.querySelector('[data-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+    });
+  }, [selectedColumnId]);
+
+  const toggleFold = (columnId: string) => {
+    setFolded(prev => {
+      const next = new Set(prev);
+      if (next.has(columnId)) next.delete(columnId);
+      else next.add(columnId);
+      return next;
+    });
+  };
+
+  const startRenaming = (column: Column) => {
+    if (readOnly) return;
+    setRenamingId(column.id);
+    setDraftTitle(column.title);
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const title = draftTitle.trim();
+    if (title && title !== byId.get(renamingId)?.title) onRename(renamingId, title);
+    setRenamingId(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, column: Column) => {
+    const dragged = draggingId ? byId.get(draggingId) : undefined;
+    if (!dragged?.parentId || dragged.id === column.id || dragged.parentId !== column.parentId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position: DropPosition = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.id !== column.id || dropTarget.position !== position) setDropTarget({ id: column.id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggingId && dropTarget) onReorder(draggingId, dropTarget.id, dropTarget.position);
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const renderNode = (column: Column, depth: number): React.ReactNode => {
+    const children = childrenOf.get(column.id) ?? [];
+    const isFolded = folded.has(column.id);
+    const isSelected = column.id === selectedColumnId;
+    const dropLine = dropTarget?.id === column.id
+      ? (dropTarget.position === 'before' ? 'shadow-[inset_0_2px_0_0_#6366f1]' : 'shadow-[inset_0_-2px_0_0_#6366f1]')
+      : '';
+
+    return (
+      <div key={column.id}>
+        <div
+          data-selected={isSelected}
+          draggable={!readOnly && !!column.parentId && renamingId !== column.id}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', column.id);
+            setDraggingId(column.id);
+          }}
+          onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+          onDragOver={(e) => handleDragOver(e, column)}
+          onDragLeave={() => dropTarget?.id === column.id && setDropTarget(null)}
+          onDrop={handleDrop}
+          onClick={() => onSelect(column.id)}
+          className={`group flex items-center gap-1.5 h-7 pr-2 rounded-md cursor-pointer select-none ${dropLine}
+            ${isSelected ? 'bg-indigo-600/20 text-white' : 'text-gray-400 hover:bg-gray-800/60 hover:text-gray-200'}
+            ${draggingId === column.id ? 'opacity-40' : ''}`}
+          style={{ paddingLeft: 6 + depth * 14 }}
+        >
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleFold(column.id); }}
+            className={`w-4 h-4 shrink-0 flex items-center justify-center text-gray-500 hover:text-white ${children.length === 0 ? 'invisible' : ''}`}
+            title={isFolded ? 'Show branches' : 'Hide branches'}
+          >
+            <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className={`transition-transform ${isFolded ? '' : 'rotate-90'}`}><path d="M9 18l6-6-6-6"/></svg>
+          </button>
+          <span
+            className={`w-1.5 h-1.5 shrink-0 rounded-full ${column.isThinking ? 'bg-indigo-400 animate-pulse' : hasFailed(column) ? 'bg-red-500' : column.mergedFrom ? 'bg-purple-400/70' : 'bg-gray-600'}`}
+            title={column.isThinking ? 'Generating' : hasFailed(column) ? 'Last reply failed' : undefined}
+          />
+          {renamingId === column.id ? (
+            <input
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              className="flex-1 min-w-0 bg-gray-800 text-white border border-indigo-500 rounded px-1 py-0.5 outline-none"
+              autoFocus
+            />
+          ) : (
+            <span
+              onDoubleClick={(e) => { e.stopPropagation(); startRenaming(column); }}
+              className="flex-1 min-w-0 truncate"
+              title={readOnly ? column.title : `${column.title}\nDouble-click to rename`}
+            >
+              {column.title || 'Untitled'}
+            </span>
+          )}
+          {isFolded && children.length > 0 && <span className="shrink-0 text-[10px] text-gray-600">+{children.length}</span>}
+          <span className="shrink-0 text-[10px] text-gray-600 tabular-nums" title="Messages">{column.messages.length}</span>
+        </div>
+        {!isFolded && children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <aside className="fixed top-14 left-0 bottom-0 w-72 z-40 bg-gray-900/95 border-r border-gray-800 backdrop-blur-xl shadow-2xl flex flex-col text-xs">
+      <div className="h-10 px-4 flex items-center justify-between border-b border-gray-800">
+        <h2 className="font-semibold text-gray-300">Outline</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white p-1" title="Hide the outline">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M15 18l-6-6 6-6"/></svg>
+        </button>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+        {roots.map(root => renderNode(root, 0))}
+      </div>
+      {!readOnly && (
+        <div className="px-4 py-2 border-t border-gray-800 text-[11px] text-gray-600">
+          Double-click a title to rename it. Drag threads to reorder them among their siblings.
+        </div>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Column } from '../types';
+import { MAX_SEARCH_RESULTS, SearchFilters, SearchResult, SearchRoleFilter, findTermRanges, getSearchTerms, searchTree } from '../services/searchService';
+
+interface SearchPaletteProps {
+  columns: Column[];
+  selectedColumnId: string; // Root of the "selected branch only" filter
+  initialQuery?: string;
+  onJump: (result: SearchResult, query: string) => void;
+  onClose: () => void;
+}
+
+const ROLE_OPTIONS: { value: SearchRoleFilter; label: string }[] = [
+  { value: 'all', label: 'Everything' },
+  { value: 'user', label: 'Your messages' },
+  { value: 'model', label: 'AI replies' }
+];
+
+const DEPTH_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any depth' },
+  { value: 0, label: 'Root only' },
+  { value: 1, label: 'Up to 1 level' },
+  { value: 2, label: 'Up to 2 levels' },
+  { value: 3, label: 'Up to 3 levels' }
+];
+
+const FIELD_LABELS: Record<SearchResult['field'], string> = { title: 'Title', snippet: 'Source', message: '' };
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  findTermRanges(text, terms).forEach(range => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(<mark key={range.start} className="bg-amber-400/30 text-amber-100 rounded-sm">{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const SearchPalette: React.FC<SearchPaletteProps> = ({ columns, selectedColumnId, initialQuery = '', onJump, onClose }) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [role, setRole] = useState<SearchRoleFilter>('all');
+  const [maxDepth, setMaxDepth] = useState<number | null>(null);
+  const [subtreeOnly, setSubtreeOnly] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const filters: SearchFilters = { role, maxDepth, subtreeOf: subtreeOnly ? selectedColumnId : null };
+  const results = useMemo(
+    () => searchTree(columns, query, filters),
+    [columns, query, role, maxDepth, subtreeOnly, selectedColumnId]
+  );
+  const terms = useMemo(() => getSearchTerms(query), [query]);
+  const selectedTitle = columns.find(c => c.id === selectedColumnId)?.title;
+
+  useEffect(() => setActiveIndex(0), [results]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      onJump(results[activeIndex], query);
+    }
+  };
+
+  const selectClassName = "bg-gray-800 text-gray-300 border border-gray-700 rounded-md px-2 py-1 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-2xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[70vh]"
+      >
+        <div className="h-12 px-4 flex items-center gap-3 border-b border-gray-800">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-500 shrink-0"><circle cx="11" cy="11" r="7"/><path d="M21 21l-4.35-4.35"/></svg>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Search every thread… (use "quotes" for a phrase)'
+            className="flex-1 min-w-0 bg-transparent text-sm text-white outline-none placeholder-gray-600"
+            autoFocus
+          />
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-800 flex flex-wrap items-center gap-2 text-xs">
+          <select value={role} onChange={(e) => setRole(e.target.value as SearchRoleFilter)} className={selectClassName}>
+            {ROLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <select
+            value={maxDepth === null ? '' : String(maxDepth)}
+            onChange={(e) => setMaxDepth(e.target.value === '' ? null : Number(e.target.value))}
+            className={selectClassName}
+          >
+            {DEPTH_OPTIONS.map(option => <option key={option.label} value={option.value === null ? '' : option.value}>{option.label}</option>)}
+          </select>
+          <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer min-w-0" title={selectedTitle}>
+            <input type="checkbox" checked={subtreeOnly} onChange={(e) => setSubtreeOnly(e.target.checked)} className="accent-indigo-500" />
+            <span className="truncate">Only under "{selectedTitle || 'selected thread'}"</span>
+          </label>
+          <span className="ml-auto text-gray-600">{terms.length > 0 && `${results.length}${results.length === MAX_SEARCH_RESULTS ? '+' : ''} ${results.length === 1 ? 'result' : 'results'}`}</span>
+        </div>
+
+        <ul ref={listRef} className="flex-1 overflow-y-auto p-2 flex flex-col gap-1 text-xs">
+          {terms.length > 0 && results.length === 0 && (
+            <li className="text-gray-500 italic px-3 py-4">Nothing matches. Try fewer words or loosen the filters.</li>
+          )}
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              data-active={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onJump(result, query)}
+              className={`rounded-lg px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-indigo-600/20 ring-1 ring-indigo-500/40' : 'hover:bg-gray-800/60'}`}
+            >
+              <div className="flex items-center gap-2 text-[11px] text-gray-500 mb-0.5">
+                <span className="font-medium text-gray-300 truncate">{result.columnTitle || 'Untitled'}</span>
+                {result.depth > 0 && <span className="shrink-0">depth {result.depth}</span>}
+                <span className="ml-auto shrink-0">
+                  {result.field === 'message' ? (result.role === 'user' ? 'You' : 'AI') : FIELD_LABELS[result.field]}
+                </span>
+              </div>
+              <div className="text-gray-300 leading-relaxed break-words">
+                <Highlighted text={result.context} terms={terms} />
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-5 py-2 border-t border-gray-800 flex gap-4 text-[11px] text-gray-500">
+          <span>↑↓ to choose</span>
+          <span>Enter to jump</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../services/storageService';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+export const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (sessions.length === 0) return null;
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-10">
+      <h3 className="text-xs uppercase tracking-wider text-gray-500 mb-3 font-semibold">Recent explorations</h3>
+      <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto pr-1">
+        {sessions.map(session => (
+          <li
+            key={session.id}
+            className="group flex items-center gap-3 bg-gray-900/80 border border-gray-800 hover:border-indigo-500/60 rounded-lg px-4 py-3 transition-colors"
+          >
+            <div className="flex-1 overflow-hidden">
+              {editingId === session.id ? (
+                <form onSubmit={commitRename}>
+                  <input
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => commitRename()}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                    className="w-full bg-gray-800 text-white text-sm border border-gray-600 rounded px-2 py-1 outline-none focus:border-indigo-500"
+                    autoFocus
+                  />
+                </form>
+              ) : (
+                <button onClick={() => onOpen(session.id)} className="w-full text-left">
+                  <div className="text-sm font-medium text-gray-200 truncate group-hover:text-white">{session.name || 'Untitled'}</div>
+                  <div className="text-[11px] text-gray-500">
+                    {session.columnCount} {session.columnCount === 1 ? 'thread' : 'threads'} · {session.messageCount} messages · {formatDate(session.updatedAt)}
+                  </div>
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-1 text-xs text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => startRename(session)} className="px-2 py-1 rounded hover:bg-white/5 hover:text-white">Rename</button>
+              <button onClick={() => onDuplicate(session.id)} className="px-2 py-1 rounded hover:bg-white/5 hover:text-white">Duplicate</button>
+              <button
+                onClick={() => { if (window.confirm(`Delete "${session.name}"? This cannot be undone.`)) onDelete(session.id); }}
+                className="px-2 py-1 rounded hover:bg-white/5 hover:text-red-400"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
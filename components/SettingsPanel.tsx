@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ContextStrategy, ProviderId, ProviderSettings } from '../services/settingsService';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Gemini API via @google/genai' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, Ollama, llama.cpp, vLLM...' },
+  { id: 'scripted', label: 'Scripted', description: 'Deterministic offline replies' }
+];
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-400">
+    <span className="font-medium text-gray-300">{label}</span>
+    {children}
+    {hint && <span className="text-[11px] text-gray-500">{hint}</span>}
+  </label>
+);
+
+const inputClass = "bg-gray-800 text-white text-sm border border-gray-700 rounded-md px-3 py-2 outline-none focus:border-indigo-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const update = <K extends 'gemini' | 'openai' | 'scripted'>(section: K, patch: Partial<ProviderSettings[K]>) => {
+    setDraft(prev => ({ ...prev, [section]: { ...prev[section], ...patch } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh]"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white">Settings</h2>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-5 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-2">
+            {PROVIDERS.map(provider => (
+              <button
+                key={provider.id}
+                type="button"
+                onClick={() => setDraft(prev => ({ ...prev, activeProvider: provider.id }))}
+                className={`text-left rounded-lg border px-3 py-2 transition-colors ${
+                  draft.activeProvider === provider.id
+                    ? 'border-indigo-500 bg-indigo-900/30 text-white'
+                    : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                <div className="text-xs font-semibold">{provider.label}</div>
+                <div className="text-[10px] text-gray-500 mt-0.5">{provider.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {draft.activeProvider === 'gemini' && (
+            <>
+              <Field label="Model">
+                <input className={inputClass} value={draft.gemini.model} onChange={(e) => update('gemini', { model: e.target.value })} />
+              </Field>
+              <Field label="API key" hint="Leave empty to use GEMINI_API_KEY from .env.local.">
+                <input type="password" className={inputClass} value={draft.gemini.apiKey} onChange={(e) => update('gemini', { apiKey: e.target.value })} />
+              </Field>
+            </>
+          )}
+
+          {draft.activeProvider === 'openai' && (
+            <>
+              <Field label="Base URL" hint="The endpoint serving /chat/completions, e.g. http://localhost:11434/v1 for Ollama.">
+                <input className={inputClass} value={draft.openai.baseUrl} onChange={(e) => update('openai', { baseUrl: e.target.value })} />
+              </Field>
+              <Field label="Model">
+                <input className={inputClass} value={draft.openai.model} onChange={(e) => update('openai', { model: e.target.value })} />
+              </Field>
+              <Field label="API key" hint="Optional for local servers.">
+                <input type="password" className={inputClass} value={draft.openai.apiKey} onChange={(e) => update('openai', { apiKey: e.target.value })} />
+              </Field>
+            </>
+          )}
+
+          {draft.activeProvider === 'scripted' && (
+            <>
+              <Field label="Replies" hint='Separate replies with a line containing only "---". Leave empty for generated echo replies.'>
+                <textarea
+                  className={`${inputClass} h-40 font-mono text-xs`}
+                  value={draft.scripted.replies}
+                  onChange={(e) => update('scripted', { replies: e.target.value })}
+                />
+              </Field>
+              <Field label="Delay between chunks (ms)">
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={draft.scripted.chunkDelayMs}
+                  onChange={(e) => update('scripted', { chunkDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </Field>
+            </>
+          )}
+
+          <div className="border-t border-gray-800 pt-4 flex flex-col gap-3">
+            <h3 className="text-xs font-semibold text-gray-300">Context budget</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Max context tokens">
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  className={inputClass}
+                  value={draft.context.maxContextTokens}
+                  onChange={(e) => setDraft(prev => ({ ...prev, context: { ...prev.context, maxContextTokens: Math.max(1000, Number(e.target.value) || 0) } }))}
+                />
+              </Field>
+              <Field label="When exceeded">
+                <select
+                  className={inputClass}
+                  value={draft.context.strategy}
+                  onChange={(e) => setDraft(prev => ({ ...prev, context: { ...prev.context, strategy: e.target.value as ContextStrategy } }))}
+                >
+                  <option value="summarize">Summarize older ancestors</option>
+                  <option value="trim">Drop oldest messages</option>
+                  <option value="none">Send everything</option>
+                </select>
+              </Field>
+            </div>
+            <Field label="Always keep the newest turns" hint="These are never trimmed, even when over budget.">
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={draft.context.keepRecentTurns}
+                onChange={(e) => setDraft(prev => ({ ...prev, context: { ...prev.context, keepRecentTurns: Math.max(0, Number(e.target.value) || 0) } }))}
+              />
+            </Field>
+          </div>
+
+          <div className="border-t border-gray-800 pt-4 flex flex-col gap-3">
+            <h3 className="text-xs font-semibold text-gray-300">Parallel branches</h3>
+            <Field label="Branches generating at once" hint="When fanning out several branches from one selection, the rest wait for a free slot.">
+              <input
+                type="number"
+                min={1}
+                max={10}
+                className={inputClass}
+                value={draft.maxConcurrentBranches}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxConcurrentBranches: Math.min(10, Math.max(1, Number(e.target.value) || 1)) }))}
+              />
+            </Field>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-white px-3 py-2">Cancel</button>
+          <button type="submit" className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium px-4 py-2 rounded-md">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { normalizeShortcut, shortcutFromEvent } from '../services/branchActionService';
+import { COMMANDS, CommandDefinition, CommandId, ShortcutBindings, formatShortcut, getCommandShortcuts } from '../services/shortcutService';
+
+interface ShortcutsPanelProps {
+  bindings: ShortcutBindings;
+  onSave: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const GROUPS: CommandDefinition['group'][] = ['Navigate', 'Edit', 'View', 'Panels'];
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock'];
+
+const sameShortcuts = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((shortcut, i) => normalizeShortcut(shortcut) === normalizeShortcut(b[i]));
+
+/**
+ * Lists every command with its shortcuts. Click "Add" and press a key combination to bind it.
+ */
+export const ShortcutsPanel: React.FC<ShortcutsPanelProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ShortcutBindings>(bindings);
+  const [recordingId, setRecordingId] = useState<CommandId | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // Focus the panel so key presses reach it even before anything inside was clicked
+  useEffect(() => formRef.current?.focus(), []);
+
+  const duplicateShortcuts = useMemo(() => {
+    const counts = new Map<string, number>();
+    COMMANDS.forEach(command => {
+      getCommandShortcuts(draft, command).forEach(shortcut => {
+        const key = normalizeShortcut(shortcut);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+    });
+    return new Set([...counts].filter(([, count]) => count > 1).map(([key]) => key));
+  }, [draft]);
+
+  const setShortcuts = (command: CommandDefinition, shortcuts: string[]) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      if (sameShortcuts(shortcuts, command.defaultShortcuts)) delete next[command.id];
+      else next[command.id] = shortcuts;
+      return next;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!recordingId) {
+      if (e.key === 'Escape') onClose();
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    if (MODIFIER_KEYS.includes(e.key)) return; // Wait for the actual key
+    const pressed = normalizeShortcut(shortcutFromEvent(e.nativeEvent));
+    if (!pressed || pressed.endsWith('+')) return; // Space and "+" can't be spelled as shortcuts
+    const command = COMMANDS.find(c => c.id === recordingId)!;
+    const current = getCommandShortcuts(draft, command);
+    if (!current.some(shortcut => normalizeShortcut(shortcut) === pressed)) {
+      setShortcuts(command, [...current, pressed]);
+    }
+    setRecordingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <form
+        ref={formRef}
+        onSubmit={handleSubmit}
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        tabIndex={-1}
+        className="w-full max-w-2xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh] outline-none"
+      >
+        <div className="h-12 px-5 flex items-center gap-3 border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white flex-1">Keyboard shortcuts</h2>
+          <button type="button" onClick={() => setDraft({})} className="text-xs text-gray-400 hover:text-white">Reset all</button>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3 flex flex-col gap-4 text-xs">
+          <p className="text-gray-500">
+            Shortcuts work while no text field has focus; Ctrl also means Cmd on macOS. Press <kbd className="border border-gray-700 rounded px-1">Esc</kbd> in
+            the message box to return to the canvas.
+          </p>
+          {GROUPS.map(group => (
+            <section key={group} className="flex flex-col gap-1">
+              <h3 className="text-[11px] uppercase tracking-wider text-gray-500 mb-1">{group}</h3>
+              {COMMANDS.filter(command => command.group === group).map(command => {
+                const shortcuts = getCommandShortcuts(draft, command);
+                return (
+                  <div key={command.id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-white/[0.03]">
+                    <span className="flex-1 min-w-0 truncate text-gray-300">{command.label}</span>
+                    {shortcuts.map(shortcut => (
+                      <kbd
+                        key={shortcut}
+                        className={`flex items-center gap-1 text-[10px] border rounded px-1.5 py-0.5 ${
+                          duplicateShortcuts.has(normalizeShortcut(shortcut)) ? 'border-red-500/60 text-red-300' : 'border-gray-700 text-gray-400'
+                        }`}
+                        title={duplicateShortcuts.has(normalizeShortcut(shortcut)) ? 'Another command uses this shortcut; only the first one will fire.' : undefined}
+                      >
+                        {formatShortcut(shortcut)}
+                        <button
+                          type="button"
+                          onClick={() => setShortcuts(command, shortcuts.filter(s => s !== shortcut))}
+                          className="text-gray-600 hover:text-white"
+                          title="Remove this shortcut"
+                        >
+                          ×
+                        </button>
+                      </kbd>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setRecordingId(recordingId === command.id ? null : command.id)}
+                      className={`text-[11px] rounded px-1.5 py-0.5 ${recordingId === command.id ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-white'}`}
+                    >
+                      {recordingId === command.id ? 'Press keys…' : 'Add'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShortcuts(command, command.defaultShortcuts)}
+                      disabled={!draft[command.id]}
+                      className="text-[11px] text-gray-500 hover:text-white disabled:invisible"
+                      title="Back to the default shortcuts"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-800 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-white px-3 py-2">Cancel</button>
+          <button type="submit" className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium px-4 py-2 rounded-md">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+};
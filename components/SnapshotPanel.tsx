@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Column } from '../types';
+import { StoredSnapshot } from '../services/storageService';
+import { DiffKind, diffTrees, summarizeDiff } from '../services/snapshotDiffService';
+
+export const CURRENT_CANVAS = 'current'; // Stands for the live canvas wherever a snapshot id is expected
+
+interface SnapshotPanelProps {
+  snapshots: StoredSnapshot[];
+  liveColumns: Column[];
+  onCreate: (name: string) => void;
+  onView: (snapshotId: string) => void; // Opens the snapshot read-only on the canvas
+  onRestore: (snapshotId: string) => void;
+  onDelete: (snapshotId: string) => void;
+  onHighlightDiff: (fromId: string, toId: string) => void; // Either id may be CURRENT_CANVAS
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const preview = (text: string) => text.length > 80 ? `${text.substring(0, 80)}...` : text;
+
+const KIND_STYLES: Record<DiffKind, string> = {
+  added: 'text-emerald-300 border-emerald-500/40 bg-emerald-500/10',
+  removed: 'text-red-300 border-red-500/40 bg-red-500/10',
+  changed: 'text-amber-300 border-amber-500/40 bg-amber-500/10'
+};
+
+const KIND_TEXT: Record<DiffKind, string> = { added: 'text-emerald-300', removed: 'text-red-300', changed: 'text-amber-300' };
+
+const KIND_SIGNS: Record<DiffKind, string> = { added: '+', removed: '−', changed: '~' };
+
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  snapshots,
+  liveColumns,
+  onCreate,
+  onView,
+  onRestore,
+  onDelete,
+  onHighlightDiff,
+  onClose
+}) => {
+  const [draftName, setDraftName] = useState('');
+  const [fromId, setFromId] = useState<string>(() => snapshots[snapshots.length - 1]?.id ?? CURRENT_CANVAS);
+  const [toId, setToId] = useState<string>(CURRENT_CANVAS);
+
+  const getColumns = (id: string) => id === CURRENT_CANVAS ? liveColumns : snapshots.find(s => s.id === id)?.columns;
+  const fromColumns = getColumns(fromId);
+  const toColumns = getColumns(toId);
+  const diff = useMemo(
+    () => fromColumns && toColumns && fromId !== toId ? diffTrees(fromColumns, toColumns) : null,
+    [fromColumns, toColumns, fromId, toId]
+  );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreate(draftName.trim() || `Snapshot ${snapshots.length + 1}`);
+    setDraftName('');
+  };
+
+  const sideOptions = (
+    <>
+      <option value={CURRENT_CANVAS}>Current canvas</option>
+      {snapshots.map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[90vh]"
+      >
+        <div className="h-12 px-5 flex items-center justify-between border-b border-gray-800">
+          <h2 className="font-semibold text-sm text-white">Snapshots</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white p-1">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6L6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1 text-xs">
+          <div className="w-80 border-r border-gray-800 flex flex-col">
+            <form onSubmit={handleCreate} className="p-3 border-b border-gray-800 flex gap-2">
+              <input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder="e.g. Before asking about pricing"
+                className="flex-1 min-w-0 bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500"
+              />
+              <button type="submit" className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-md px-3 py-1.5">Save</button>
+            </form>
+            <ul className="flex-1 overflow-y-auto p-2 flex flex-col gap-1">
+              {snapshots.length === 0 && (
+                <li className="text-gray-500 italic px-2 py-3">No snapshots yet. Save one to bookmark the tree as it is now.</li>
+              )}
+              {[...snapshots].reverse().map(snapshot => (
+                <li key={snapshot.id} className="group rounded-md px-2 py-2 hover:bg-gray-800/60">
+                  <div className="font-medium text-gray-200 truncate" title={snapshot.name}>{snapshot.name}</div>
+                  <div className="text-[11px] text-gray-500">
+                    {formatDate(snapshot.createdAt)} · {snapshot.columns.length} {snapshot.columns.length === 1 ? 'thread' : 'threads'}
+                  </div>
+                  <div className="flex gap-1 mt-1 text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => onView(snapshot.id)} className="px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-white" title="Look at this snapshot on the canvas without changing anything">View</button>
+                    <button onClick={() => onRestore(snapshot.id)} className="px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-white" title="Replace the canvas with this snapshot (can be undone)">Restore</button>
+                    <button onClick={() => { setFromId(snapshot.id); setToId(CURRENT_CANVAS); }} className="px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-white">Compare</button>
+                    <button
+                      onClick={() => { if (window.confirm(`Delete snapshot "${snapshot.name}"?`)) onDelete(snapshot.id); }}
+                      className="ml-auto px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="p-3 border-b border-gray-800 flex items-center gap-2">
+              <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="flex-1 min-w-0 bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500">
+                {sideOptions}
+              </select>
+              <span className="text-gray-500">→</span>
+              <select value={toId} onChange={(e) => setToId(e.target.value)} className="flex-1 min-w-0 bg-gray-800 text-white border border-gray-700 rounded-md px-2 py-1.5 outline-none focus:border-indigo-500">
+                {sideOptions}
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-2">
+              {!diff ? (
+                <div className="text-gray-500 italic">Pick two different states to compare.</div>
+              ) : (
+                <>
+                  <div className="text-gray-400">{summarizeDiff(diff)}</div>
+                  {diff.columns.map(change => (
+                    <div key={change.columnId} className={`rounded-lg border px-3 py-2 ${KIND_STYLES[change.kind]}`}>
+                      <div className="font-semibold truncate">{KIND_SIGNS[change.kind]} {change.title || 'Untitled'}</div>
+                      {change.details.map(detail => <div key={detail} className="text-[11px] opacity-80">{detail}</div>)}
+                      {change.kind !== 'removed' && change.kind !== 'added' && change.messages.length > 0 && (
+                        <ul className="mt-1 flex flex-col gap-1 text-gray-300">
+                          {change.messages.map(msg => (
+                            <li key={msg.messageId} className="flex gap-2">
+                              <span className={`w-3 shrink-0 ${KIND_TEXT[msg.kind]}`}>{KIND_SIGNS[msg.kind]}</span>
+                              <span className="min-w-0">
+                                <span className="text-gray-500">{msg.role === 'user' ? 'You' : 'AI'}: </span>
+                                {msg.kind === 'changed'
+                                  ? <><span className="line-through text-gray-500">{preview(msg.before ?? '')}</span> {preview(msg.after ?? '')}</>
+                                  : preview((msg.kind === 'added' ? msg.after : msg.before) || '(empty)')}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {(change.kind === 'added' || change.kind === 'removed') && change.messages.length > 0 && (
+                        <div className="text-[11px] opacity-80">{change.messages.length} {change.messages.length === 1 ? 'message' : 'messages'}</div>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+
+            <div className="px-3 py-2 border-t border-gray-800 flex justify-end">
+              <button
+                onClick={() => onHighlightDiff(fromId, toId)}
+                disabled={!diff || diff.columns.length === 0}
+                className="bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-md px-3 py-1.5 disabled:opacity-50"
+                title={toId === CURRENT_CANVAS ? 'Mark the changes on the canvas' : 'Open the newer snapshot read-only with its changes marked'}
+              >
+                Highlight on canvas
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
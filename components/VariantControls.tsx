@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Message } from '../types';
+import { GenerationOptions } from '../services/llmProvider';
+import { getActiveVariantId, getVariants } from '../services/variantService';
+
+interface VariantControlsProps {
+  message: Message;
+  branchCountByVariant: Map<string, number>;
+  onRegenerate?: (options?: GenerationOptions) => void; // Omitted while the column is generating
+  onSelectVariant: (variantId: string) => void;
+}
+
+/**
+ * Footer of a model reply: `‹ 1/3 ›` variant switcher, regenerate menu and token usage.
+ */
+export const VariantControls: React.FC<VariantControlsProps> = ({
+  message,
+  branchCountByVariant,
+  onRegenerate,
+  onSelectVariant
+}) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const [model, setModel] = useState('');
+  const [temperature, setTemperature] = useState('');
+
+  const variants = getVariants(message);
+  const activeIndex = Math.max(0, variants.findIndex(v => v.id === getActiveVariantId(message)));
+  const active = variants[activeIndex];
+  const hiddenBranches = variants.reduce((sum, v) => v.id === active.id ? sum : sum + (branchCountByVariant.get(v.id) || 0), 0);
+
+  const handleRegenerateWithOptions = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTemperature = parseFloat(temperature);
+    onRegenerate?.({
+      model: model.trim() || undefined,
+      temperature: Number.isFinite(parsedTemperature) ? parsedTemperature : undefined
+    });
+    setShowOptions(false);
+  };
+
+  if (variants.length < 2 && !onRegenerate && message.usage?.totalTokens === undefined) return null;
+
+  const describeVariant = [
+    active.model,
+    active.temperature !== undefined ? `temp ${active.temperature}` : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="mt-1.5 select-none" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-[10px] text-gray-500">
+        {variants.length > 1 && (
+          <div className="flex items-center gap-0.5" title={describeVariant || undefined}>
+            <button
+              onClick={(e) => { e.stopPropagation(); onSelectVariant(variants[activeIndex - 1].id); }}
+              disabled={activeIndex === 0}
+              className="px-1 rounded hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              ‹
+            </button>
+            <span className="tabular-nums text-gray-400">{activeIndex + 1}/{variants.length}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onSelectVariant(variants[activeIndex + 1].id); }}
+              disabled={activeIndex === variants.length - 1}
+              className="px-1 rounded hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              ›
+            </button>
+            {describeVariant && <span className="ml-1 text-gray-600 truncate max-w-[120px]">{describeVariant}</span>}
+          </div>
+        )}
+
+        {onRegenerate && (
+          <div className="flex items-center">
+            <button
+              onClick={(e) => { e.stopPropagation(); onRegenerate(); }}
+              className="px-1.5 py-0.5 rounded-l hover:text-white hover:bg-white/5 transition-colors"
+              title="Generate another version of this reply"
+            >
+              ↻ Regenerate
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowOptions(v => !v); }}
+              className={`px-1 py-0.5 rounded-r hover:text-white hover:bg-white/5 transition-colors ${showOptions ? 'text-white' : ''}`}
+              title="Regenerate with a different model or temperature"
+            >
+              ▾
+            </button>
+          </div>
+        )}
+
+        {hiddenBranches > 0 && (
+          <span className="text-indigo-400/80" title="Branches attached to other versions of this reply">
+            +{hiddenBranches} on other versions
+          </span>
+        )}
+
+        {message.usage?.totalTokens !== undefined && (
+          <span
+            className="ml-auto"
+            title={`Prompt: ${message.usage.promptTokens ?? '?'} · Output: ${message.usage.outputTokens ?? '?'}`}
+          >
+            {message.usage.totalTokens.toLocaleString()} tokens
+          </span>
+        )}
+      </div>
+
+      {showOptions && onRegenerate && (
+        <form onSubmit={handleRegenerateWithOptions} className="mt-1.5 flex items-center gap-1.5">
+          <input
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="Model (default)"
+            className="flex-1 min-w-0 bg-gray-800 text-white text-[11px] border border-gray-700 rounded px-2 py-1 outline-none focus:border-indigo-500"
+          />
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            max="2"
+            value={temperature}
+            onChange={(e) => setTemperature(e.target.value)}
+            placeholder="Temp"
+            className="w-16 bg-gray-800 text-white text-[11px] border border-gray-700 rounded px-2 py-1 outline-none focus:border-indigo-500"
+          />
+          <button type="submit" className="text-[11px] bg-indigo-600 hover:bg-indigo-500 text-white rounded px-2 py-1">Go</button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { ModelSettings } from "../types";
+
+const ACTIONS_KEY = 'deepdive-ai.branch-actions';
+const ACTIONS_FILE_VERSION = 1;
+
+/**
+ * A one-click way to branch from a text selection.
+ * The template may use {{selection}} (the selected text) and {{message}} (the whole message it came from).
+ */
+export interface BranchAction {
+  id: string;
+  label: string;
+  icon: string; // Short emoji or symbol shown on the tooltip button
+  template: string;
+  shortcut?: string; // e.g. "E" or "Alt+1"; only active while the selection tooltip is open
+  settings?: ModelSettings; // Layered over the source column's settings for the new branch
+}
+
+/**
+ * One branch to create from a selection: either a library action or a free-form question.
+ */
+export interface BranchChoice {
+  action?: BranchAction;
+  customPrompt?: string;
+}
+
+export const DEFAULT_BRANCH_ACTIONS: BranchAction[] = [
+  {
+    id: 'deep-dive',
+    label: 'Deep Dive',
+    icon: '✨',
+    template: 'Tell me more about "{{selection}}" in the context of our previous conversation.',
+    shortcut: 'D'
+  },
+  {
+    id: 'explain-simply',
+    label: 'Explain simply',
+    icon: '🧒',
+    template: 'Explain "{{selection}}" in simple terms, as if to someone new to the topic. Avoid jargon.',
+    shortcut: 'S'
+  },
+  {
+    id: 'example',
+    label: 'Give an example',
+    icon: '🧪',
+    template: 'Give a concrete, worked example of "{{selection}}".',
+    shortcut: 'E'
+  },
+  {
+    id: 'counterargument',
+    label: 'Counterargument',
+    icon: '⚖️',
+    template: 'What are the strongest counterarguments or caveats to this claim: "{{selection}}"?',
+    shortcut: 'C'
+  },
+  {
+    id: 'translate',
+    label: 'Translate',
+    icon: '🌐',
+    template: 'Translate the following into English, keeping formatting and tone. If it is already English, translate it into Chinese.\n\n{{selection}}',
+    shortcut: 'T',
+    settings: { temperature: 0.2 }
+  },
+  {
+    id: 'define',
+    label: 'Define term',
+    icon: '📖',
+    template: 'Define "{{selection}}" precisely as it is used in this passage:\n\n{{message}}',
+    shortcut: 'F',
+    settings: { temperature: 0.2 }
+  }
+];
+
+/**
+ * Fills {{selection}} and {{message}} placeholders. Unknown placeholders are left as typed.
+ */
+export const renderBranchPrompt = (template: string, values: { selection: string; message: string }): string =>
+  template.replace(/\{\{\s*(selection|message)\s*\}\}/g, (_, key: 'selection' | 'message') => values[key]);
+
+/**
+ * Normalizes shortcut strings so "alt+e", "Alt + E" and "E+Alt" compare equal.
+ */
+export const normalizeShortcut = (shortcut: string): string => {
+  const parts = shortcut.split('+').map(p => p.trim().toLowerCase()).filter(Boolean);
+  const modifiers = ['ctrl', 'alt', 'shift', 'meta'].filter(m => parts.includes(m));
+  const key = parts.find(p => !modifiers.includes(p)) ?? '';
+  return [...modifiers, key].join('+');
+};
+
+export const shortcutFromEvent = (e: KeyboardEvent): string => {
+  const modifiers = [e.ctrlKey && 'ctrl', e.altKey && 'alt', e.shiftKey && 'shift', e.metaKey && 'meta'].filter(Boolean);
+  // With Alt held, e.key is often a special character on macOS, so fall back to the physical key
+  const key = e.code.startsWith('Key') ? e.code.slice(3) : e.code.startsWith('Digit') ? e.code.slice(5) : e.key;
+  return [...modifiers, key.toLowerCase()].join('+');
+};
+
+/**
+ * Checks one action definition, returning a list of problems (empty when valid).
+ */
+const validateAction = (raw: unknown, index: number): string[] => {
+  const where = `Action ${index + 1}`;
+  if (!raw || typeof raw !== 'object') return [`${where} is not an object.`];
+  const action = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof action.label !== 'string' || !action.label.trim()) errors.push(`${where} needs a label.`);
+  if (typeof action.template !== 'string' || !action.template.trim()) errors.push(`${where} needs a prompt template.`);
+  if (action.shortcut !== undefined && typeof action.shortcut !== 'string') errors.push(`${where} has an invalid shortcut.`);
+  if (action.settings !== undefined && (typeof action.settings !== 'object' || action.settings === null)) {
+    errors.push(`${where} has invalid model settings.`);
+  }
+  return errors;
+};
+
+/**
+ * Builds an action from a definition that passed `validateAction`, keeping only the known fields.
+ */
+const sanitizeAction = (raw: Record<string, unknown>, fallbackId: string): BranchAction => {
+  const settings: ModelSettings = {};
+  if (raw.settings && typeof raw.settings === 'object') {
+    const rawSettings = raw.settings as Record<string, unknown>;
+    if (typeof rawSettings.model === 'string' && rawSettings.model) settings.model = rawSettings.model;
+    if (typeof rawSettings.temperature === 'number') settings.temperature = rawSettings.temperature;
+    if (typeof rawSettings.maxOutputTokens === 'number') settings.maxOutputTokens = rawSettings.maxOutputTokens;
+    if (typeof rawSettings.systemPrompt === 'string' && rawSettings.systemPrompt) settings.systemPrompt = rawSettings.systemPrompt;
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : fallbackId,
+    label: typeof raw.label === 'string' ? raw.label.trim() : '',
+    icon: typeof raw.icon === 'string' ? raw.icon : '',
+    template: typeof raw.template === 'string' ? raw.template : '',
+    shortcut: typeof raw.shortcut === 'string' ? raw.shortcut.trim() || undefined : undefined,
+    settings: Object.keys(settings).length > 0 ? settings : undefined
+  };
+};
+
+/**
+ * Parses an exported action file (or a bare array of actions).
+ * Throws an Error listing every problem found, so nothing is half-imported.
+ */
+export const parseBranchActions = (json: string): BranchAction[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { actions?: unknown })?.actions;
+  if (!Array.isArray(list)) throw new Error('Expected a list of actions.');
+  if (!Array.isArray(data) && typeof (data as { version?: unknown }).version === 'number'
+    && (data as { version: number }).version > ACTIONS_FILE_VERSION) {
+    throw new Error('This action file was exported by a newer version of the app.');
+  }
+
+  const errors = list.flatMap(validateAction);
+  if (errors.length > 0) throw new Error(errors.join(' '));
+
+  const seen = new Set<string>();
+  return list.map((raw, index) => {
+    const action = sanitizeAction(raw as Record<string, unknown>, `imported-${Date.now()}-${index}`);
+    // Ids must stay unique for React keys and editing
+    if (seen.has(action.id)) action.id = `${action.id}-${index}`;
+    seen.add(action.id);
+    return action;
+  });
+};
+
+export const exportBranchActions = (actions: BranchAction[]): string =>
+  JSON.stringify({ version: ACTIONS_FILE_VERSION, actions }, null, 2);
+
+export const loadBranchActions = (): BranchAction[] => {
+  try {
+    const raw = localStorage.getItem(ACTIONS_KEY);
+    return raw ? parseBranchActions(raw) : DEFAULT_BRANCH_ACTIONS;
+  } catch (error) {
+    console.warn("Ignoring unreadable branch actions:", error);
+    return DEFAULT_BRANCH_ACTIONS;
+  }
+};
+
+export const saveBranchActions = (actions: BranchAction[]) => {
+  localStorage.setItem(ACTIONS_KEY, exportBranchActions(actions));
+};
@@ -0,0 +1,245 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column, Message } from "../types";
+import { LayoutMode, isLayoutMode } from "./layoutService";
+import { SESSION_SCHEMA_VERSION, migrateSession } from "./storageService";
+import { getActiveVariantId } from "./variantService";
+
+export const CANVAS_FILE_FORMAT = 'deepdive-canvas';
+export const CANVAS_FILE_VERSION = 1;
+
+/**
+ * A whole canvas as a portable JSON document (`*.deepdive.json`).
+ *
+ * - `format` is always "deepdive-canvas"; `version` is the file layout version.
+ * - `schemaVersion` is the `Column`/`Message` schema the records were written with,
+ *   so older files go through the same migrations as stored sessions.
+ * - `nodeOffsets` and `nodeHeights` are keyed by column id; offsets are manual drags
+ *   relative to the automatic layout, heights the last measured card heights.
+ * - `pan`/`scale` are the camera, `selectedColumnId` the focused column.
+ * - `layoutMode` is the layout the offsets were dragged against; files without one use the default.
+ */
+export interface CanvasFile {
+  format: typeof CANVAS_FILE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  name: string;
+  exportedAt: number;
+  columns: Column[];
+  nodeOffsets: Record<string, {x: number, y: number}>;
+  nodeHeights: Record<string, number>;
+  pan: {x: number, y: number};
+  scale: number;
+  selectedColumnId: string;
+  layoutMode?: LayoutMode;
+}
+
+export interface CanvasState {
+  name: string;
+  columns: Column[];
+  nodeOffsets: Map<string, {x: number, y: number}>;
+  nodeHeights: Map<string, number>;
+  pan: {x: number, y: number};
+  scale: number;
+  selectedColumnId: string;
+  layoutMode: LayoutMode;
+}
+
+/**
+ * Raised when a file cannot be imported; `problems` lists everything that is wrong with it.
+ */
+export class CanvasFileError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(problems.length > 0 ? `${message} ${problems.join(' ')}` : message);
+    this.name = 'CanvasFileError';
+  }
+}
+
+const MAX_REPORTED_PROBLEMS = 8;
+
+export const serializeCanvas = (state: CanvasState): string => {
+  const file: CanvasFile = {
+    format: CANVAS_FILE_FORMAT,
+    version: CANVAS_FILE_VERSION,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    name: state.name,
+    exportedAt: Date.now(),
+    // Runtime-only flags are reset on import anyway
+    columns: state.columns.map(col => ({ ...col, isThinking: false })),
+    nodeOffsets: Object.fromEntries(state.nodeOffsets),
+    nodeHeights: Object.fromEntries(state.nodeHeights),
+    pan: state.pan,
+    scale: state.scale,
+    selectedColumnId: state.selectedColumnId,
+    layoutMode: state.layoutMode
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPoint = (value: unknown): value is {x: number, y: number} =>
+  isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+const isOptionalId = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// Links between records that grafting re-ids, so they must be ids when present
+const LINK_FIELDS = ['parentMessageId', 'parentVariantId', 'timelineOf', 'clusterId'] as const;
+
+const validateMessage = (msg: unknown, where: string): string[] => {
+  if (!isRecord(msg)) return [`${where} is not an object.`];
+  const problems: string[] = [];
+  if (typeof msg.id !== 'string') problems.push(`${where} has no id.`);
+  if (msg.role !== 'user' && msg.role !== 'model') problems.push(`${where} has an unknown role "${String(msg.role)}".`);
+  if (typeof msg.text !== 'string') problems.push(`${where} has no text.`);
+  if (typeof msg.timestamp !== 'number') problems.push(`${where} has no timestamp.`);
+  if (msg.variants !== undefined && (!Array.isArray(msg.variants) || !msg.variants.every(v => isRecord(v) && typeof v.id === 'string'))) {
+    problems.push(`${where} has malformed variants.`);
+  }
+  if (!isOptionalId(msg.activeVariantId)) problems.push(`${where} has an invalid activeVariantId.`);
+  return problems;
+};
+
+const validateColumns = (columns: unknown[]): string[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  columns.forEach((col, index) => {
+    if (!isRecord(col)) {
+      problems.push(`Column ${index + 1} is not an object.`);
+      return;
+    }
+    const where = `Column ${index + 1}${typeof col.title === 'string' ? ` ("${col.title}")` : ''}`;
+    if (typeof col.id !== 'string') problems.push(`${where} has no id.`);
+    else if (ids.has(col.id)) problems.push(`${where} reuses the id ${col.id}.`);
+    else ids.add(col.id);
+    if (typeof col.title !== 'string') problems.push(`${where} has no title.`);
+    if (col.parentId !== null && typeof col.parentId !== 'string') problems.push(`${where} has an invalid parentId.`);
+    LINK_FIELDS.forEach(field => {
+      if (!isOptionalId(col[field])) problems.push(`${where} has an invalid ${field}.`);
+    });
+    if (col.mergedFrom !== undefined && (!Array.isArray(col.mergedFrom) || !col.mergedFrom.every(id => typeof id === 'string'))) {
+      problems.push(`${where} has an invalid mergedFrom list.`);
+    }
+    if (!Array.isArray(col.messages)) {
+      problems.push(`${where} has no messages list.`);
+    } else {
+      col.messages.forEach((msg: unknown, msgIndex: number) => problems.push(...validateMessage(msg, `${where}, message ${msgIndex + 1},`)));
+    }
+  });
+
+  columns.forEach((col, index) => {
+    if (isRecord(col) && typeof col.parentId === 'string' && !ids.has(col.parentId)) {
+      problems.push(`Column ${index + 1} points to a parent that is not in the file.`);
+    }
+  });
+  if (columns.length > 0 && !columns.some(col => isRecord(col) && !col.parentId)) {
+    problems.push('No column is a root (every column has a parent).');
+  }
+  return problems;
+};
+
+/**
+ * Parses and validates a canvas file. Throws `CanvasFileError` with readable problems.
+ */
+export const parseCanvasFile = (json: string): CanvasFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new CanvasFileError('This file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== CANVAS_FILE_FORMAT) {
+    throw new CanvasFileError('This is not a DeepDive canvas file.');
+  }
+  const { version, schemaVersion } = data;
+  if (typeof version !== 'number' || version > CANVAS_FILE_VERSION
+    || (typeof schemaVersion === 'number' && schemaVersion > SESSION_SCHEMA_VERSION)) {
+    throw new CanvasFileError('This canvas was exported by a newer version of DeepDive. Update the app to open it.');
+  }
+  const rawColumns: unknown = data.columns;
+  if (!Array.isArray(rawColumns) || rawColumns.length === 0) {
+    throw new CanvasFileError('The file contains no columns.');
+  }
+
+  const problems = validateColumns(rawColumns);
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS);
+    if (problems.length > shown.length) shown.push(`...and ${problems.length - shown.length} more.`);
+    throw new CanvasFileError('The file is damaged:', shown);
+  }
+
+  // Column records go through the same upgrade path as stored sessions
+  const { columns } = migrateSession({ schemaVersion: schemaVersion ?? SESSION_SCHEMA_VERSION, columns: rawColumns });
+  const columnIds = new Set(columns.map(c => c.id));
+
+  const nodeOffsets: Record<string, {x: number, y: number}> = {};
+  Object.entries(isRecord(data.nodeOffsets) ? data.nodeOffsets : {}).forEach(([id, offset]) => {
+    if (columnIds.has(id) && isPoint(offset)) nodeOffsets[id] = offset;
+  });
+  const nodeHeights: Record<string, number> = {};
+  Object.entries(isRecord(data.nodeHeights) ? data.nodeHeights : {}).forEach(([id, height]) => {
+    if (columnIds.has(id) && typeof height === 'number') nodeHeights[id] = height;
+  });
+
+  const { name, exportedAt, pan, scale, selectedColumnId, layoutMode } = data;
+  return {
+    format: CANVAS_FILE_FORMAT,
+    version,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    name: typeof name === 'string' && name ? name : columns[0].title || 'Imported canvas',
+    exportedAt: typeof exportedAt === 'number' ? exportedAt : Date.now(),
+    columns,
+    nodeOffsets,
+    nodeHeights,
+    pan: isPoint(pan) ? pan : { x: 0, y: 0 },
+    scale: typeof scale === 'number' && scale > 0 ? scale : 1,
+    selectedColumnId: typeof selectedColumnId === 'string' && columnIds.has(selectedColumnId) ? selectedColumnId : columns[0].id,
+    layoutMode: isLayoutMode(layoutMode) ? layoutMode : undefined
+  };
+};
+
+/**
+ * Re-ids every column, message and variant in an imported file and hangs its root columns
+ * under `targetMessage` of `targetColumnId`, so the file can be merged into a live canvas.
+ */
+export const graftCanvasFile = (
+  file: CanvasFile,
+  targetColumnId: string,
+  targetMessage: Message
+): { columns: Column[]; nodeOffsets: [string, {x: number, y: number}][]; rootIds: string[] } => {
+  const idMap = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!idMap.has(id)) idMap.set(id, uuidv4());
+    return idMap.get(id)!;
+  };
+  const remapOptional = (id: string | null | undefined) => id ? remap(id) : id;
+
+  const rootIds: string[] = [];
+  const columns = file.columns.map(col => {
+    const isRoot = !col.parentId;
+    const id = remap(col.id);
+    if (isRoot) rootIds.push(id);
+    return {
+      ...col,
+      id,
+      parentId: isRoot ? targetColumnId : remap(col.parentId!),
+      parentMessageId: isRoot ? targetMessage.id : remapOptional(col.parentMessageId) ?? null,
+      parentVariantId: isRoot ? getActiveVariantId(targetMessage) : remapOptional(col.parentVariantId),
+      timelineOf: isRoot ? undefined : remapOptional(col.timelineOf),
+      mergedFrom: col.mergedFrom?.map(remap),
+      clusterId: remapOptional(col.clusterId),
+      isThinking: false,
+      messages: col.messages.map(msg => ({
+        ...msg,
+        id: remap(msg.id),
+        activeVariantId: remapOptional(msg.activeVariantId),
+        variants: msg.variants?.map(v => ({ ...v, id: remap(v.id) }))
+      }))
+    };
+  });
+
+  const nodeOffsets = Object.entries(file.nodeOffsets).map(([id, offset]) => [remap(id), offset] as [string, {x: number, y: number}]);
+  return { columns, nodeOffsets, rootIds };
+};
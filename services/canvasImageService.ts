@@ -0,0 +1,369 @@
+import { Column } from "../types";
+
+export type ImageScope = 'tree' | 'viewport' | 'subtree';
+export type ImageDetail = 'titles' | 'full';
+export type ImageTheme = 'dark' | 'light';
+
+export interface CanvasImageOptions {
+  scope: ImageScope;
+  detail: ImageDetail; // Title cards only, or every message as plain text
+  theme: ImageTheme;
+}
+
+export interface CanvasEdge {
+  id: string; // Child column id, or `${childId}:${sourceId}` for synthesis edges
+  isMerge?: boolean;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Everything the live canvas has computed that the image is drawn from.
+ * `layout` y values are node centers, as in the canvas; `viewport` is the visible area in canvas units.
+ */
+export interface CanvasSnapshot {
+  columns: Column[];
+  layout: Map<string, {x: number, y: number, width: number, height: number}>;
+  nodeOffsets: Map<string, {x: number, y: number}>;
+  lines: CanvasEdge[];
+  viewport: {x: number, y: number, width: number, height: number};
+  columnId: string; // Root of the subtree scope
+}
+
+export interface CanvasImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Palette {
+  background: string;
+  dots?: string;
+  card: string;
+  cardBorder: string;
+  header: string;
+  title: string;
+  text: string;
+  muted: string;
+  userBubble: string;
+  userLabel: string;
+  snippet: string;
+  synthesis: string;
+  connector: string;
+  merge: string;
+  connectorDot: string;
+  connectorDotStroke: string;
+  frame: string;
+  frameLabel: string;
+}
+
+const PALETTES: Record<ImageTheme, Palette> = {
+  dark: {
+    background: '#0f172a',
+    dots: '#334155',
+    card: '#111827',
+    cardBorder: '#374151',
+    header: '#1f2937',
+    title: '#f3f4f6',
+    text: '#d1d5db',
+    muted: '#9ca3af',
+    userBubble: '#1e1b4b',
+    userLabel: '#a5b4fc',
+    snippet: '#818cf8',
+    synthesis: '#d8b4fe',
+    connector: '#6366f1',
+    merge: '#a855f7',
+    connectorDot: '#818cf8',
+    connectorDotStroke: '#1e1b4b',
+    frame: 'rgba(99, 102, 241, 0.35)',
+    frameLabel: 'rgba(165, 180, 252, 0.7)'
+  },
+  light: {
+    background: '#ffffff',
+    card: '#ffffff',
+    cardBorder: '#cbd5e1',
+    header: '#f1f5f9',
+    title: '#0f172a',
+    text: '#334155',
+    muted: '#64748b',
+    userBubble: '#eef2ff',
+    userLabel: '#4f46e5',
+    snippet: '#4f46e5',
+    synthesis: '#9333ea',
+    connector: '#6366f1',
+    merge: '#9333ea',
+    connectorDot: '#6366f1',
+    connectorDotStroke: '#ffffff',
+    frame: 'rgba(99, 102, 241, 0.45)',
+    frameLabel: '#6366f1'
+  }
+};
+
+const FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+const MARGIN = 40;
+const HEADER_HEIGHT = 48;
+const TITLE_CARD_HEIGHT = 56;
+const CARD_PADDING = 16;
+const BODY_FONT_SIZE = 13;
+const BODY_LINE_HEIGHT = 19;
+const LABEL_HEIGHT = 18;
+const MESSAGE_GAP = 12;
+const CLUSTER_PADDING = 16;
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const curve = (startX: number, startY: number, endX: number, endY: number) => {
+  const dist = Math.abs(endX - startX);
+  return `M ${round(startX)} ${round(startY)} C ${round(startX + dist * 0.5)} ${round(startY)}, ${round(endX - dist * 0.5)} ${round(endY)}, ${round(endX)} ${round(endY)}`;
+};
+
+// Markdown reduced to what reads well as plain wrapped text
+const toPlainText = (markdown: string) => markdown
+  .replace(/```[^\n]*\n?/g, '')
+  .replace(/`([^`]+)`/g, '$1')
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/^#{1,6}\s+/gm, '')
+  .replace(/^\s*[-*+]\s+/gm, '• ')
+  .replace(/(\*\*|__)(.+?)\1/g, '$2')
+  .replace(/(^|[^*])\*([^*\n]+)\*/g, '$1$2')
+  .trim();
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, font: string, fontSize: number) => {
+  if (measureContext === undefined) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * fontSize * 0.55;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+const wrapText = (text: string, maxWidth: number, fontSize: number, weight = 400): string[] => {
+  const font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || measureText(candidate, font, fontSize) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const truncate = (text: string, maxWidth: number, fontSize: number, weight = 400) => {
+  const font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  if (measureText(text, font, fontSize) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measureText(`${text.slice(0, end)}…`, font, fontSize) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// Columns drawn for a scope; the viewport scope keeps everything and relies on the viewBox to crop
+const getScopedColumns = (snapshot: CanvasSnapshot, scope: ImageScope): Column[] => {
+  const placed = snapshot.columns.filter(col => snapshot.layout.has(col.id));
+  if (scope !== 'subtree') return placed;
+  const included = new Set<string>([snapshot.columnId]);
+  let added = true;
+  while (added) {
+    added = false;
+    placed.forEach(col => {
+      if (!included.has(col.id) && col.parentId && included.has(col.parentId)) {
+        included.add(col.id);
+        added = true;
+      }
+    });
+  }
+  return placed.filter(col => included.has(col.id));
+};
+
+/**
+ * Renders the canvas as a standalone SVG document, using the live layout, drag offsets and connector anchors.
+ */
+export const renderCanvasSvg = (snapshot: CanvasSnapshot, options: CanvasImageOptions): CanvasImage => {
+  const palette = PALETTES[options.theme];
+  const columns = getScopedColumns(snapshot, options.scope);
+  const columnIds = new Set(columns.map(col => col.id));
+
+  // Card boxes; title cards keep the node's center so connectors still line up with the layout
+  const boxes = new Map<string, {x: number, top: number, width: number, height: number, centerY: number}>();
+  columns.forEach(col => {
+    const pos = snapshot.layout.get(col.id)!;
+    const offset = snapshot.nodeOffsets.get(col.id) || {x: 0, y: 0};
+    const centerY = pos.y + offset.y;
+    const height = options.detail === 'titles' ? Math.min(pos.height, TITLE_CARD_HEIGHT) : pos.height;
+    boxes.set(col.id, { x: pos.x + offset.x, top: centerY - height / 2, width: pos.width, height, centerY });
+  });
+
+  // Edges start at the parent's right edge; full cards keep the height of the highlighted source text
+  const liveLines = new Map(snapshot.lines.map(line => [line.id, line]));
+  const edges: { path: string; isMerge: boolean; startX: number; startY: number; endX: number; endY: number }[] = [];
+  columns.forEach(col => {
+    const box = boxes.get(col.id)!;
+    const sources = col.mergedFrom?.length ? col.mergedFrom : col.parentId ? [col.parentId] : [];
+    sources.forEach(sourceId => {
+      const source = boxes.get(sourceId);
+      if (!source || !columnIds.has(sourceId)) return;
+      const isMerge = !!col.mergedFrom?.length;
+      const live = liveLines.get(isMerge ? `${col.id}:${sourceId}` : col.id);
+      const startX = source.x + source.width;
+      const startY = options.detail === 'full' && live && !isMerge
+        ? Math.min(Math.max(live.startY, source.top), source.top + source.height)
+        : source.centerY;
+      edges.push({ path: curve(startX, startY, box.x, box.centerY), isMerge, startX, startY, endX: box.x, endY: box.centerY });
+    });
+  });
+
+  const frames = new Map<string, {left: number, top: number, right: number, bottom: number, count: number}>();
+  columns.forEach(col => {
+    if (!col.clusterId) return;
+    const box = boxes.get(col.id)!;
+    const frame = frames.get(col.clusterId);
+    frames.set(col.clusterId, {
+      left: Math.min(frame?.left ?? Infinity, box.x),
+      top: Math.min(frame?.top ?? Infinity, box.top),
+      right: Math.max(frame?.right ?? -Infinity, box.x + box.width),
+      bottom: Math.max(frame?.bottom ?? -Infinity, box.top + box.height),
+      count: (frame?.count ?? 0) + 1
+    });
+  });
+  const clusterFrames = Array.from(frames.values()).filter(frame => frame.count > 1);
+
+  let bounds: {x: number, y: number, width: number, height: number};
+  if (options.scope === 'viewport') {
+    bounds = snapshot.viewport;
+  } else {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    boxes.forEach(box => {
+      minX = Math.min(minX, box.x);
+      minY = Math.min(minY, box.top);
+      maxX = Math.max(maxX, box.x + box.width);
+      maxY = Math.max(maxY, box.top + box.height);
+    });
+    clusterFrames.forEach(frame => {
+      minY = Math.min(minY, frame.top - CLUSTER_PADDING - 20);
+      maxY = Math.max(maxY, frame.bottom + CLUSTER_PADDING);
+    });
+    if (boxes.size === 0) minX = minY = maxX = maxY = 0;
+    bounds = { x: minX - MARGIN, y: minY - MARGIN, width: maxX - minX + MARGIN * 2, height: maxY - minY + MARGIN * 2 };
+  }
+
+  const parts: string[] = [];
+  parts.push(`<rect x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" fill="${palette.background}"/>`);
+  if (palette.dots) {
+    parts.push(`<rect x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" fill="url(#dots)"/>`);
+  }
+
+  clusterFrames.forEach(frame => {
+    const x = frame.left - CLUSTER_PADDING;
+    const y = frame.top - CLUSTER_PADDING;
+    parts.push(`<rect x="${round(x)}" y="${round(y)}" width="${round(frame.right - frame.left + CLUSTER_PADDING * 2)}" height="${round(frame.bottom - frame.top + CLUSTER_PADDING * 2)}" rx="16" fill="none" stroke="${palette.frame}" stroke-dasharray="6 4"/>`);
+    parts.push(`<text x="${round(x + 12)}" y="${round(y - 8)}" font-size="10" letter-spacing="1" fill="${palette.frameLabel}">⑂ ${frame.count} PARALLEL BRANCHES</text>`);
+  });
+
+  edges.forEach(edge => {
+    const stroke = edge.isMerge ? palette.merge : palette.connector;
+    parts.push(`<path d="${edge.path}" fill="none" stroke="${stroke}" stroke-width="2"${edge.isMerge ? ' stroke-dasharray="6 4"' : ''}/>`);
+    [[edge.startX, edge.startY], [edge.endX, edge.endY]].forEach(([cx, cy]) => {
+      parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="4" fill="${palette.connectorDot}" stroke="${palette.connectorDotStroke}" stroke-width="2"/>`);
+    });
+  });
+
+  columns.forEach((col, index) => {
+    const box = boxes.get(col.id)!;
+    const textWidth = box.width - CARD_PADDING * 2;
+    const clipId = `card-${index}`;
+    const headerHeight = options.detail === 'titles' ? box.height : Math.min(HEADER_HEIGHT, box.height);
+    const subtitle = col.mergedFrom?.length
+      ? { text: `Synthesis of ${col.mergedFrom.length} branches`, color: palette.synthesis }
+      : col.contextSnippet ? { text: `From: "${col.contextSnippet}"`, color: palette.snippet } : null;
+
+    parts.push(`<clipPath id="${clipId}"><rect x="${round(box.x)}" y="${round(box.top)}" width="${box.width}" height="${round(box.height)}" rx="12"/></clipPath>`);
+    parts.push(`<g clip-path="url(#${clipId})">`);
+    parts.push(`<rect x="${round(box.x)}" y="${round(box.top)}" width="${box.width}" height="${round(box.height)}" fill="${palette.card}"/>`);
+    parts.push(`<rect x="${round(box.x)}" y="${round(box.top)}" width="${box.width}" height="${round(headerHeight)}" fill="${palette.header}"/>`);
+
+    const titleY = box.top + (subtitle ? headerHeight / 2 - 3 : headerHeight / 2 + 5);
+    parts.push(`<text x="${round(box.x + CARD_PADDING)}" y="${round(titleY)}" font-size="14" font-weight="600" fill="${palette.title}">${escapeXml(truncate(col.title || 'New Thread', textWidth, 14, 600))}</text>`);
+    if (subtitle) {
+      parts.push(`<text x="${round(box.x + CARD_PADDING)}" y="${round(titleY + 16)}" font-size="10" fill="${subtitle.color}">${escapeXml(truncate(subtitle.text, textWidth, 10))}</text>`);
+    }
+
+    if (options.detail === 'full' && !col.isCollapsed) {
+      let y = box.top + HEADER_HEIGHT + CARD_PADDING;
+      const bottom = box.top + box.height;
+      for (const msg of col.messages) {
+        if (y >= bottom) break;
+        const isUser = msg.role === 'user';
+        const lines = wrapText(toPlainText(msg.text) || (isUser ? '' : '(no reply)'), isUser ? textWidth - 20 : textWidth, BODY_FONT_SIZE);
+        const blockHeight = LABEL_HEIGHT + lines.length * BODY_LINE_HEIGHT;
+        if (isUser) {
+          parts.push(`<rect x="${round(box.x + CARD_PADDING - 10)}" y="${round(y - 6)}" width="${textWidth + 20}" height="${round(blockHeight + 8)}" rx="8" fill="${palette.userBubble}"/>`);
+        }
+        parts.push(`<text x="${round(box.x + CARD_PADDING)}" y="${round(y + 10)}" font-size="10" font-weight="600" letter-spacing="0.5" fill="${isUser ? palette.userLabel : palette.muted}">${isUser ? 'YOU' : 'AI'}</text>`);
+        const tspans = lines.map((line, i) =>
+          `<tspan x="${round(box.x + CARD_PADDING)}" y="${round(y + LABEL_HEIGHT + BODY_FONT_SIZE + i * BODY_LINE_HEIGHT)}">${escapeXml(line) || ' '}</tspan>`
+        );
+        parts.push(`<text font-size="${BODY_FONT_SIZE}" fill="${palette.text}" xml:space="preserve">${tspans.join('')}</text>`);
+        y += blockHeight + MESSAGE_GAP;
+      }
+    }
+    parts.push('</g>');
+    parts.push(`<rect x="${round(box.x)}" y="${round(box.top)}" width="${box.width}" height="${round(box.height)}" rx="12" fill="none" stroke="${palette.cardBorder}"/>`);
+  });
+
+  const defs = palette.dots
+    ? `<defs><pattern id="dots" width="24" height="24" patternUnits="userSpaceOnUse"><circle cx="1" cy="1" r="1" fill="${palette.dots}"/></pattern></defs>`
+    : '';
+  const svgWidth = Math.max(1, Math.round(bounds.width));
+  const svgHeight = Math.max(1, Math.round(bounds.height));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="${round(bounds.x)} ${round(bounds.y)} ${round(bounds.width)} ${round(bounds.height)}" font-family="${escapeXml(FONT_FAMILY)}">${defs}${parts.join('')}</svg>`;
+  return { svg, width: svgWidth, height: svgHeight };
+};
+
+/**
+ * Rasterizes a rendered SVG to PNG. The pixel ratio is lowered for very large trees to stay within browser canvas limits.
+ */
+export const rasterizeSvg = (image: CanvasImage, pixelRatio = 2): Promise<Blob> => {
+  const ratio = Math.min(
+    pixelRatio,
+    MAX_CANVAS_SIDE / Math.max(image.width, image.height),
+    Math.sqrt(MAX_CANVAS_AREA / (image.width * image.height))
+  );
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }));
+
+  return new Promise<Blob>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.floor(image.width * ratio));
+      canvas.height = Math.max(1, Math.floor(image.height * ratio));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('This browser cannot rasterize images.'));
+        return;
+      }
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image is too large to export as PNG.')), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The SVG could not be rendered.'));
+    };
+    img.src = url;
+  });
+};
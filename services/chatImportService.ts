@@ -0,0 +1,479 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column, Message } from "../types";
+import { CANVAS_FILE_FORMAT, CANVAS_FILE_VERSION, CanvasFile } from "./canvasFileService";
+import { SESSION_SCHEMA_VERSION } from "./storageService";
+
+export type ChatImportSource = 'chatgpt' | 'gemini' | 'gemini-activity' | 'markdown';
+
+export const CHAT_IMPORT_SOURCE_LABELS: Record<ChatImportSource, string> = {
+  'chatgpt': 'ChatGPT export',
+  'gemini': 'Google AI Studio prompt',
+  'gemini-activity': 'Gemini Apps activity (Google Takeout)',
+  'markdown': 'Markdown transcript'
+};
+
+export interface ImportedConversation {
+  title: string;
+  createdAt: number;
+  columns: Column[]; // Root column first; alternate branches follow as child columns
+}
+
+export interface ChatImport {
+  source: ChatImportSource;
+  conversations: ImportedConversation[];
+  problems: string[]; // Records that were skipped or only partly understood
+}
+
+interface Turn {
+  role: Message['role'];
+  text: string;
+  timestamp: number;
+}
+
+const TITLE_LENGTH = 30;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.substring(0, length)}...` : text;
+
+const newColumn = (title: string, parentId: string | null, parentMessageId: string | null): Column => ({
+  id: uuidv4(),
+  title,
+  parentId,
+  parentMessageId,
+  contextSnippet: null,
+  messages: [],
+  inputValue: '',
+  isThinking: false,
+  isCollapsed: false
+});
+
+/**
+ * Appends a turn, folding it into the previous message when the role repeats
+ * (tool calls and chunked replies would otherwise break the user/model alternation).
+ * Returns the id of the message that now holds the turn.
+ */
+const appendTurn = (column: Column, turn: Turn): string => {
+  const last = column.messages[column.messages.length - 1];
+  if (last && last.role === turn.role) {
+    const merged = { ...last, text: `${last.text}\n\n${turn.text}` };
+    column.messages[column.messages.length - 1] = merged;
+    return merged.id;
+  }
+  const message: Message = { id: uuidv4(), role: turn.role, text: turn.text, timestamp: turn.timestamp };
+  column.messages.push(message);
+  return message.id;
+};
+
+const linearConversation = (title: string, turns: Turn[]): ImportedConversation => {
+  const root = newColumn(title, null, null);
+  turns.forEach(turn => appendTurn(root, turn));
+  return { title, createdAt: turns[0]?.timestamp ?? Date.now(), columns: [root] };
+};
+
+// --- ChatGPT (conversations.json) ---
+
+interface ChatGPTNode {
+  id: string;
+  parent: string | null;
+  children: string[];
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+/**
+ * Narrows one entry of a conversation's `mapping` to the fields the importer reads.
+ */
+const readChatGPTNode = (id: string, raw: unknown): ChatGPTNode | null => {
+  if (!isRecord(raw)) return null;
+  const node: ChatGPTNode = {
+    id,
+    parent: typeof raw.parent === 'string' ? raw.parent : null,
+    children: Array.isArray(raw.children) ? raw.children.filter((child): child is string => typeof child === 'string') : []
+  };
+  if (isRecord(raw.message)) {
+    const { author, content, metadata, create_time } = raw.message;
+    node.message = {
+      author: { role: isRecord(author) && typeof author.role === 'string' ? author.role : undefined },
+      create_time: typeof create_time === 'number' ? create_time : null,
+      content: isRecord(content) ? {
+        content_type: typeof content.content_type === 'string' ? content.content_type : undefined,
+        parts: Array.isArray(content.parts) ? content.parts : undefined,
+        text: typeof content.text === 'string' ? content.text : undefined
+      } : undefined,
+      metadata: { is_visually_hidden_from_conversation: isRecord(metadata) && metadata.is_visually_hidden_from_conversation === true }
+    };
+  }
+  return node;
+};
+
+// Content that is never shown in the ChatGPT UI either, so skipping it is not worth reporting
+const HIDDEN_CHATGPT_CONTENT = new Set(['thoughts', 'reasoning_recap', 'user_editable_context', 'model_editable_context']);
+
+const convertChatGPTNode = (node: ChatGPTNode, fallbackTime: number, report: (problem: string) => void): Turn | null => {
+  const message = node.message;
+  if (!message) return null;
+  const role = message.author?.role;
+  const content = message.content ?? {};
+  const contentType = content.content_type ?? 'text';
+  const timestamp = message.create_time ? message.create_time * 1000 : fallbackTime;
+
+  if (role === 'system' || message.metadata?.is_visually_hidden_from_conversation || HIDDEN_CHATGPT_CONTENT.has(contentType)) {
+    return null;
+  }
+  if (role === 'tool') {
+    report(`Skipped a tool message (${contentType}).`);
+    return null;
+  }
+  if (role !== 'user' && role !== 'assistant') {
+    report(`Skipped a message from unknown author "${role}".`);
+    return null;
+  }
+
+  let text: string;
+  if (contentType === 'text' || contentType === 'multimodal_text') {
+    text = (content.parts ?? []).map(part => {
+      if (typeof part === 'string') return part;
+      const type = isRecord(part) && typeof part.content_type === 'string' ? part.content_type : 'unknown';
+      report(`Replaced a non-text attachment (${type}) with a placeholder.`);
+      return '[attachment]';
+    }).join('\n');
+  } else if (contentType === 'code') {
+    text = `\`\`\`\n${content.text ?? ''}\n\`\`\``;
+  } else {
+    report(`Skipped a message with unsupported content type "${contentType}".`);
+    return null;
+  }
+
+  if (!text.trim()) return null;
+  return { role: role === 'user' ? 'user' : 'model', text, timestamp };
+};
+
+/**
+ * Rebuilds one ChatGPT conversation. The thread ending at `current_node` becomes the root
+ * column; every other edit or regeneration becomes a child column of the reply it branched
+ * from. A regenerated reply hangs from the reply before its prompt and repeats the prompt.
+ */
+const importChatGPTConversation = (raw: unknown, report: (problem: string) => void): ImportedConversation | null => {
+  if (!isRecord(raw) || !isRecord(raw.mapping)) {
+    report(`Skipped "${isRecord(raw) && typeof raw.title === 'string' ? raw.title : 'a conversation'}": it has no message tree.`);
+    return null;
+  }
+  const mapping: Record<string, ChatGPTNode> = {};
+  Object.entries(raw.mapping).forEach(([id, value]) => {
+    const node = readChatGPTNode(id, value);
+    if (node) mapping[id] = node;
+    else report('Skipped a malformed message.');
+  });
+  const title = typeof raw.title === 'string' && raw.title ? raw.title : 'ChatGPT conversation';
+  const createdAt = typeof raw.create_time === 'number' ? raw.create_time * 1000 : Date.now();
+
+  // Nodes on the thread the user last looked at are preferred as the main line
+  const currentPath = new Set<string>();
+  const currentNode = typeof raw.current_node === 'string' ? raw.current_node : null;
+  for (let id: string | null = currentNode; id && mapping[id] && !currentPath.has(id); id = mapping[id].parent) {
+    currentPath.add(id);
+  }
+
+  const columns: Column[] = [];
+  const roots = Object.values(mapping).filter(node => !node.parent || !mapping[node.parent]);
+  // `repeated` holds the turns between the branch point and the alternative, copied into its column
+  const pending: { nodeId: string; parentId: string | null; parentMessageId: string | null; repeated: Turn[] }[] =
+    roots.map(node => ({ nodeId: node.id, parentId: null, parentMessageId: null, repeated: [] }));
+  let rootColumnId: string | null = null;
+
+  while (pending.length > 0) {
+    const start = pending.shift()!;
+    const isRoot = start.parentId === null;
+    const column = newColumn(title, start.parentId, start.parentMessageId);
+    start.repeated.forEach(turn => appendTurn(column, turn));
+    let hasOwnMessages = false;
+    let node: ChatGPTNode | undefined = mapping[start.nodeId];
+
+    while (node) {
+      const turn = convertChatGPTNode(node, createdAt, report);
+      if (turn) {
+        appendTurn(column, turn);
+        hasOwnMessages = true;
+      }
+
+      const children = node.children.filter(id => mapping[id]);
+      if (children.length < node.children.length) report('Skipped a reference to a missing message.');
+      if (children.length === 0) break;
+
+      const main = children.find(id => currentPath.has(id)) ?? children[children.length - 1];
+      const alternatives = children.filter(id => id !== main);
+      if (alternatives.length > 0) {
+        // Branches start from AI replies. Without one in this column yet, they hang where the column itself hangs
+        const branchIndex = column.messages.map(msg => msg.role).lastIndexOf('model');
+        const repeated = column.messages.slice(branchIndex + 1).map(({ role, text, timestamp }) => ({ role, text, timestamp }));
+        alternatives.forEach(id => pending.push(branchIndex === -1
+          ? { nodeId: id, parentId: column.parentId, parentMessageId: column.parentMessageId, repeated }
+          : { nodeId: id, parentId: column.id, parentMessageId: column.messages[branchIndex].id, repeated }));
+      }
+      node = mapping[main];
+    }
+
+    if (!hasOwnMessages) continue;
+    if (isRoot) {
+      if (rootColumnId) {
+        // Alternate first messages: shown as timelines of the first root
+        column.timelineOf = rootColumnId;
+      } else {
+        rootColumnId = column.id;
+      }
+    } else {
+      const first = column.messages[0];
+      column.title = first.role === 'user' && start.repeated.length === 0 ? `Edit: ${truncate(first.text, TITLE_LENGTH)}` : 'Alternate reply';
+    }
+    columns.push(column);
+  }
+
+  if (columns.length === 0) {
+    report(`Skipped "${title}": it contains no readable messages.`);
+    return null;
+  }
+  // The canvas expects the main root first
+  columns.sort((a, b) => (a.id === rootColumnId ? -1 : b.id === rootColumnId ? 1 : 0));
+  return { title, createdAt, columns };
+};
+
+// --- Gemini ---
+
+/**
+ * Google AI Studio saves prompts as JSON with the conversation under `chunkedPrompt.chunks`.
+ */
+const getAIStudioChunks = (data: unknown): unknown[] | null =>
+  isRecord(data) && isRecord(data.chunkedPrompt) && Array.isArray(data.chunkedPrompt.chunks) ? data.chunkedPrompt.chunks : null;
+
+const importAIStudioPrompt = (chunks: unknown[], fileName: string, report: (problem: string) => void): ImportedConversation => {
+  const now = Date.now();
+  const turns: Turn[] = [];
+  chunks.forEach((chunk, index) => {
+    if (!isRecord(chunk)) {
+      report(`Skipped chunk ${index + 1}: not an object.`);
+      return;
+    }
+    if (chunk.isThought) return;
+    const role = chunk.role;
+    if (role !== 'user' && role !== 'model') {
+      report(`Skipped chunk ${index + 1}: unknown role "${String(role)}".`);
+      return;
+    }
+    if (typeof chunk.text !== 'string') {
+      report(`Replaced chunk ${index + 1} (an attachment) with a placeholder.`);
+      turns.push({ role, text: '[attachment]', timestamp: now });
+      return;
+    }
+    if (chunk.text.trim()) turns.push({ role, text: chunk.text, timestamp: now });
+  });
+  return linearConversation(fileName.replace(/\.[^.]+$/, '') || 'AI Studio prompt', turns);
+};
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'UL', 'OL', 'TABLE', 'BLOCKQUOTE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+/**
+ * Rough HTML to Markdown conversion for Takeout's rendered replies.
+ */
+const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as HTMLElement;
+    const inner = () => Array.from(el.childNodes).map(walk).join('');
+    switch (el.tagName) {
+      case 'BR': return '\n';
+      case 'PRE': return `\n\`\`\`\n${el.textContent ?? ''}\n\`\`\`\n`;
+      case 'CODE': return `\`${el.textContent ?? ''}\``;
+      case 'STRONG': case 'B': return `**${inner()}**`;
+      case 'EM': case 'I': return `*${inner()}*`;
+      case 'LI': return `- ${inner().trim()}\n`;
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+        return `\n${'#'.repeat(Number(el.tagName[1]))} ${inner().trim()}\n`;
+      default: return BLOCK_TAGS.has(el.tagName) ? `\n${inner()}\n` : inner();
+    }
+  };
+  return walk(doc.body).replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Takeout's "My Activity" export has one record per prompt and no conversation boundaries,
+ * so records are grouped into one conversation per day.
+ */
+const isGeminiActivityRecord = (item: unknown): item is Record<string, unknown> =>
+  isRecord(item) && typeof item.header === 'string' && /gemini|bard/i.test(item.header);
+
+const importGeminiActivity = (records: Record<string, unknown>[], report: (problem: string) => void): ImportedConversation[] => {
+  const byDay = new Map<string, Turn[]>();
+  const sorted = records
+    .map(record => ({ record, time: typeof record.time === 'string' ? Date.parse(record.time) : NaN }))
+    .sort((a, b) => a.time - b.time);
+
+  sorted.forEach(({ record, time }, index) => {
+    const title = typeof record.title === 'string' ? record.title : '';
+    if (!title.startsWith('Prompted ') || Number.isNaN(time)) {
+      report(`Skipped activity record ${index + 1}${title ? ` ("${truncate(title, 40)}")` : ''}: not a prompt.`);
+      return;
+    }
+    const items = record.safeHtmlItem;
+    const reply = Array.isArray(items) && isRecord(items[0]) ? items[0].html : undefined;
+    const day = new Date(time).toISOString().slice(0, 10);
+    const turns = byDay.get(day) ?? [];
+    turns.push({ role: 'user', text: title.slice('Prompted '.length), timestamp: time });
+    if (typeof reply === 'string') {
+      turns.push({ role: 'model', text: htmlToMarkdown(reply), timestamp: time });
+    } else {
+      report(`Activity record ${index + 1} has no saved reply; imported the prompt only.`);
+    }
+    byDay.set(day, turns);
+  });
+
+  return Array.from(byDay.entries()).map(([day, turns]) => linearConversation(`Gemini ${day}`, turns));
+};
+
+// --- Markdown transcripts ---
+
+const USER_NAMES = ['user', 'you', 'me', 'human', 'prompt', 'question', 'q'];
+const MODEL_NAMES = ['assistant', 'ai', 'model', 'chatgpt', 'gpt', 'gemini', 'bard', 'claude', 'bot', 'answer', 'a'];
+
+// Speaker on its own line: "## Assistant", "**User:**", "**You** · *time*", "Gemini:"
+const SPEAKER_HEADER = /^\s*(#{1,6}\s+)?(\*\*|__)?([A-Za-z][\w .-]{0,20}?)(?:\*\*|__)?\s*(:)?\s*(?:\*\*|__)?\s*(?:·.*)?$/;
+// Speaker followed by the first line of text: "User: hi", "**AI:** hello", "**Q**: why?"
+const SPEAKER_INLINE = /^\s*(?:\*\*|__)?([A-Za-z][\w.-]{0,20})(?:\*\*|__)?\s*:\s*(?:\*\*|__)?\s+(.+)$/;
+
+const matchSpeaker = (line: string): { name: string; rest?: string } | null => {
+  const header = line.match(SPEAKER_HEADER);
+  // Bare words on their own line are ordinary text unless marked up as a speaker
+  if (header && (header[1] || header[2] || header[4])) return { name: header[3] };
+  const inline = line.match(SPEAKER_INLINE);
+  return inline ? { name: inline[1], rest: inline[2] } : null;
+};
+
+const speakerRole = (name: string): Message['role'] | null => {
+  const key = name.trim().toLowerCase();
+  if (USER_NAMES.includes(key)) return 'user';
+  if (MODEL_NAMES.includes(key)) return 'model';
+  return null;
+};
+
+/**
+ * Splits a transcript at speaker lines. A leading "# Title" heading names the conversation.
+ */
+const importMarkdownTranscript = (text: string, fileName: string, report: (problem: string) => void): ImportedConversation | null => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let title = fileName.replace(/\.[^.]+$/, '') || 'Transcript';
+  const titleMatch = lines.findIndex(line => line.trim() !== '');
+  if (titleMatch !== -1 && /^#\s+/.test(lines[titleMatch]) && !speakerRole(lines[titleMatch].replace(/^#\s+/, '').replace(/:$/, ''))) {
+    title = lines[titleMatch].replace(/^#\s+/, '').trim();
+    lines.splice(titleMatch, 1);
+  }
+
+  const now = Date.now();
+  const turns: Turn[] = [];
+  let current: { role: Message['role']; lines: string[] } | null = null;
+  let preamble = 0;
+  const flush = () => {
+    // Our own exports quote prompts; unquote so they read naturally again
+    const body = current?.lines.join('\n').trim();
+    if (current && body) {
+      const unquoted = body.split('\n').every(line => line.startsWith('>'))
+        ? body.split('\n').map(line => line.replace(/^>\s?/, '')).join('\n')
+        : body;
+      turns.push({ role: current.role, text: unquoted, timestamp: now });
+    }
+  };
+
+  lines.forEach(line => {
+    const speaker = matchSpeaker(line);
+    const role = speaker ? speakerRole(speaker.name) : null;
+    if (speaker && role) {
+      flush();
+      current = { role, lines: speaker.rest ? [speaker.rest] : [] };
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.trim()) {
+      preamble++;
+    }
+  });
+  flush();
+
+  if (preamble > 0) report(`Ignored ${preamble} line${preamble === 1 ? '' : 's'} before the first speaker.`);
+  if (turns.length === 0) {
+    report('No speaker lines such as "User:" or "**Assistant:**" were found.');
+    return null;
+  }
+  return linearConversation(title, turns);
+};
+
+// --- Entry points ---
+
+/**
+ * Detects the format of a chat export and converts it. Throws when the file is not
+ * something any importer understands.
+ */
+export const importChatFile = (fileName: string, text: string): ChatImport => {
+  const problems: string[] = [];
+  const report = (prefix: string) => (problem: string) => problems.push(prefix ? `${prefix}: ${problem}` : problem);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = undefined;
+  }
+
+  if (data === undefined) {
+    const conversation = importMarkdownTranscript(text, fileName, report(''));
+    if (!conversation) throw new Error(`Could not read "${fileName}" as a transcript. ${problems.join(' ')}`);
+    return { source: 'markdown', conversations: [conversation], problems };
+  }
+
+  const isChatGPTConversation = (item: unknown) => isRecord(item) && isRecord(item.mapping);
+  if (Array.isArray(data) ? data.some(isChatGPTConversation) : isChatGPTConversation(data)) {
+    const list: unknown[] = Array.isArray(data) ? data : [data];
+    const conversations = list
+      .map((raw, index) => {
+        const label = isRecord(raw) && typeof raw.title === 'string' && raw.title ? raw.title : `Conversation ${index + 1}`;
+        return importChatGPTConversation(raw, report(label));
+      })
+      .filter((c): c is ImportedConversation => c !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+    if (conversations.length === 0) throw new Error(`No readable conversations in "${fileName}". ${problems.slice(0, 5).join(' ')}`);
+    return { source: 'chatgpt', conversations, problems };
+  }
+
+  const chunks = getAIStudioChunks(data);
+  if (chunks) {
+    return { source: 'gemini', conversations: [importAIStudioPrompt(chunks, fileName, report(''))], problems };
+  }
+
+  if (Array.isArray(data) && data.some(isGeminiActivityRecord)) {
+    const records = data.filter(isGeminiActivityRecord);
+    if (records.length < data.length) problems.push(`Skipped ${data.length - records.length} activity records from other Google products.`);
+    const conversations = importGeminiActivity(records, report(''));
+    if (conversations.length === 0) throw new Error(`No Gemini prompts found in "${fileName}".`);
+    return { source: 'gemini-activity', conversations, problems };
+  }
+
+  throw new Error(`"${fileName}" is JSON, but not a ChatGPT, Gemini or DeepDive export.`);
+};
+
+export const conversationToCanvasFile = (conversation: ImportedConversation): CanvasFile => ({
+  format: CANVAS_FILE_FORMAT,
+  version: CANVAS_FILE_VERSION,
+  schemaVersion: SESSION_SCHEMA_VERSION,
+  name: conversation.title,
+  exportedAt: conversation.createdAt,
+  columns: conversation.columns,
+  nodeOffsets: {},
+  nodeHeights: {},
+  pan: { x: 0, y: 0 },
+  scale: 1,
+  selectedColumnId: conversation.columns[0].id
+});
@@ -0,0 +1,198 @@
+import { Column } from "../types";
+import { ContextPolicy } from "./settingsService";
+import { ChatTurn, LLMProvider } from "./llmProvider";
+import { HistorySegment, flattenSegments } from "./historyService";
+
+// Rough but provider-independent: ~4 characters per token for English prose.
+const CHARS_PER_TOKEN = 4;
+// Expected size of a summary that has not been generated yet.
+const PENDING_SUMMARY_TOKENS = 300;
+
+const SUMMARY_INSTRUCTION = 'Summarize the conversation above so it can replace it as context for a follow-up discussion. ' +
+  'Keep every fact, definition, decision and open question that later questions could depend on. ' +
+  'Write at most 250 words and reply with the summary only.';
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimateTurns = (turns: ChatTurn[]) => turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+
+/**
+ * Cheap FNV-1a hash used to key cached summaries by the exact content they replace.
+ */
+const hashTurns = (turns: ChatTurn[]): string => {
+  let hash = 0x811c9dc5;
+  turns.forEach(turn => {
+    const text = `${turn.role}:${turn.text}\u0000`;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  });
+  return (hash >>> 0).toString(16);
+};
+
+export type PlannedTurnKind = 'message' | 'branch' | 'summary' | 'omitted';
+
+export interface PlannedTurn extends ChatTurn {
+  kind: PlannedTurnKind;
+  columnId?: string; // Column the turn (or the summarized segment) comes from
+  isPending?: boolean; // Summary placeholder: the real summary has not been generated yet
+}
+
+export interface SummaryRequest {
+  columnId: string;
+  key: string;
+  turns: ChatTurn[];
+}
+
+export interface ContextPlan {
+  turns: PlannedTurn[]; // History that will be sent, excluding the new message
+  rawTokens: number; // Full uncompressed history + message + system prompt
+  plannedTokens: number; // What the planned turns + message + system prompt add up to
+  budget: number;
+  missingSummaries: SummaryRequest[];
+}
+
+type SummaryLookup = (columnId: string, key: string) => string | undefined;
+
+export const summaryLookupFromColumns = (columns: Column[]): SummaryLookup => {
+  const byId = new Map(columns.map(c => [c.id, c]));
+  return (columnId, key) => byId.get(columnId)?.contextSummaries?.[key];
+};
+
+const summaryTurn = (columnId: string, summary: string | undefined): PlannedTurn => ({
+  role: 'user',
+  kind: 'summary',
+  columnId,
+  isPending: summary === undefined,
+  text: `[Summary of earlier conversation]\n${summary ?? '(summary will be generated before sending)'}`
+});
+
+/**
+ * Drops the oldest turns until the plan fits, never touching the newest `keepRecentTurns`.
+ */
+const trimToBudget = (turns: PlannedTurn[], available: number, keepRecentTurns: number): PlannedTurn[] => {
+  let total = estimateTurns(turns);
+  let dropCount = 0;
+  const maxDrop = Math.max(0, turns.length - keepRecentTurns);
+  while (total > available && dropCount < maxDrop) {
+    total -= estimateTokens(turns[dropCount].text);
+    dropCount++;
+  }
+  if (dropCount === 0) return turns;
+  return [
+    { role: 'user', kind: 'omitted', text: `[${dropCount} earlier messages omitted to fit the context budget]` },
+    ...turns.slice(dropCount)
+  ];
+};
+
+/**
+ * Decides what history a column sends under the given policy.
+ * Ancestors are compressed oldest-first; the target column itself is only ever trimmed.
+ */
+export const planContext = (
+  segments: HistorySegment[],
+  message: string,
+  policy: ContextPolicy,
+  getSummary: SummaryLookup,
+  systemPrompt?: string
+): ContextPlan => {
+  const fixedTokens = estimateTokens(message) + (systemPrompt ? estimateTokens(systemPrompt) : 0);
+  const rawTokens = estimateTurns(flattenSegments(segments)) + fixedTokens;
+  const budget = policy.maxContextTokens;
+
+  const asPlanned = (segment: HistorySegment): PlannedTurn[] => [
+    ...segment.turns.map(turn => ({ ...turn, kind: 'message' as const, columnId: segment.columnId })),
+    ...(segment.branchNote ? [{ ...segment.branchNote, kind: 'branch' as const, columnId: segment.columnId }] : [])
+  ];
+
+  if (policy.strategy === 'none' || rawTokens <= budget) {
+    const turns = segments.flatMap(asPlanned);
+    return { turns, rawTokens, plannedTokens: rawTokens, budget, missingSummaries: [] };
+  }
+
+  let turns: PlannedTurn[];
+  const missingSummaries: SummaryRequest[] = [];
+
+  if (policy.strategy === 'summarize') {
+    let total = rawTokens;
+    turns = [];
+    segments.forEach(segment => {
+      const canCompress = !segment.isTarget && segment.turns.length > 0 && total > budget;
+      if (!canCompress) {
+        turns.push(...asPlanned(segment));
+        return;
+      }
+      const key = hashTurns(segment.turns);
+      const summary = getSummary(segment.columnId, key);
+      if (summary === undefined) {
+        missingSummaries.push({ columnId: segment.columnId, key, turns: segment.turns });
+      }
+      total -= estimateTurns(segment.turns) - (summary !== undefined ? estimateTokens(summary) : PENDING_SUMMARY_TOKENS);
+      turns.push(summaryTurn(segment.columnId, summary));
+      if (segment.branchNote) {
+        turns.push({ ...segment.branchNote, kind: 'branch', columnId: segment.columnId });
+      }
+    });
+  } else {
+    turns = segments.flatMap(asPlanned);
+  }
+
+  // Summaries alone may not be enough (e.g. a huge target column): fall back to trimming
+  turns = trimToBudget(turns, budget - fixedTokens, policy.keepRecentTurns);
+
+  return {
+    turns,
+    rawTokens,
+    plannedTokens: estimateTurns(turns) + fixedTokens,
+    budget,
+    missingSummaries
+  };
+};
+
+/**
+ * Asks the model to summarize one segment of history.
+ */
+export const generateSummary = async (
+  provider: LLMProvider,
+  request: SummaryRequest,
+  signal?: AbortSignal
+): Promise<string> => {
+  let summary = '';
+  await provider.streamReply(
+    { history: request.turns, message: SUMMARY_INSTRUCTION, options: { temperature: 0.2 }, signal },
+    (chunk) => { summary += chunk; }
+  );
+  return summary.trim();
+};
+
+/**
+ * Plans the context and generates any summaries the plan still needs,
+ * reporting each new summary through `onSummary` so callers can cache it.
+ */
+export const prepareContext = async (
+  segments: HistorySegment[],
+  message: string,
+  policy: ContextPolicy,
+  getSummary: SummaryLookup,
+  provider: LLMProvider,
+  onSummary: (columnId: string, key: string, summary: string) => void,
+  systemPrompt?: string,
+  signal?: AbortSignal
+): Promise<ContextPlan> => {
+  const fresh = new Map<string, string>();
+  const lookup: SummaryLookup = (columnId, key) => fresh.get(`${columnId}:${key}`) ?? getSummary(columnId, key);
+
+  let plan = planContext(segments, message, policy, lookup, systemPrompt);
+  // Real summaries can come out longer than estimated and pull further segments in,
+  // so re-plan until nothing is missing. Each round adds summaries, so this terminates.
+  while (plan.missingSummaries.length > 0) {
+    for (const request of plan.missingSummaries) {
+      const summary = await generateSummary(provider, request, signal);
+      fresh.set(`${request.columnId}:${request.key}`, summary);
+      onSummary(request.columnId, request.key, summary);
+    }
+    plan = planContext(segments, message, policy, lookup, systemPrompt);
+  }
+  return plan;
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Column, Message } from "../types";
+import { getColumnPath, getPathMessages } from "./historyService";
+
+export type ExportScope = 'path' | 'subtree' | 'tree';
+export type ExportFormat = 'markdown' | 'html';
+
+export interface ExportOptions {
+  scope: ExportScope;
+  includePrompts: boolean;
+  includeTimestamps: boolean;
+}
+
+const MAX_HEADING_LEVEL = 6;
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+const renderMessages = (messages: Message[], options: ExportOptions): string[] =>
+  messages.flatMap(msg => {
+    if (msg.role === 'user' && !options.includePrompts) return [];
+    const stamp = options.includeTimestamps ? ` · *${formatTimestamp(msg.timestamp)}*` : '';
+    if (msg.role === 'user') {
+      return [`**You**${stamp}\n\n${quote(msg.text)}`];
+    }
+    // Replies are markdown already; only label them when there is something to separate them from
+    const label = options.includePrompts || options.includeTimestamps ? `**Assistant**${stamp}\n\n` : '';
+    return [`${label}${msg.text || '*(no reply)*'}`];
+  });
+
+const renderSection = (col: Column, depth: number, messages: Message[], columns: Column[], options: ExportOptions): string => {
+  const level = Math.min(depth + 1, MAX_HEADING_LEVEL);
+  const parts = [`${'#'.repeat(level)} ${col.title || 'Untitled'}`];
+  if (col.contextSnippet) {
+    parts.push(quote(`From: "${col.contextSnippet}"`));
+  }
+  if (col.mergedFrom?.length) {
+    const titles = col.mergedFrom.map(id => columns.find(c => c.id === id)?.title).filter(Boolean);
+    parts.push(quote(`Synthesis of: ${titles.join(', ')}`));
+  }
+  parts.push(...renderMessages(messages, options));
+  return parts.join('\n\n');
+};
+
+/**
+ * Renders a column's path, its subtree or the whole tree as Markdown,
+ * with one heading per column nested by branch depth.
+ */
+export const exportToMarkdown = (columnId: string, columns: Column[], options: ExportOptions): string => {
+  if (options.scope === 'path') {
+    // The same chain the model sees: ancestors stop at the message each branch came from
+    const path = getColumnPath(columnId, columns);
+    return path
+      .map((col, index) => renderSection(col, index, getPathMessages(col, path[index + 1] ?? null), columns, options))
+      .join('\n\n');
+  }
+
+  const renderTree = (col: Column, depth: number): string[] => [
+    renderSection(col, depth, col.messages, columns, options),
+    ...columns.filter(c => c.parentId === col.id).flatMap(child => renderTree(child, depth + 1))
+  ];
+
+  const roots = options.scope === 'tree'
+    ? columns.filter(c => !c.parentId)
+    : columns.filter(c => c.id === columnId);
+  // Subtrees start at a top-level heading regardless of how deep they sit in the canvas
+  return roots.flatMap(root => renderTree(root, 0)).join('\n\n');
+};
+
+// Light theme for the exported page, including highlight.js token colors (GitHub palette)
+const HTML_STYLES = `
+body { font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2328; background: #fff; max-width: 820px; margin: 40px auto; padding: 0 24px; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 2em 0 0.6em; }
+h1 { border-bottom: 1px solid #d1d9e0; padding-bottom: 0.3em; }
+blockquote { margin: 0 0 1em; padding: 0 1em; color: #59636e; border-left: 0.25em solid #d1d9e0; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 85%; background: #f6f8fa; padding: 0.2em 0.4em; border-radius: 6px; }
+pre { background: #f6f8fa; padding: 16px; border-radius: 6px; overflow: auto; }
+pre code { background: none; padding: 0; font-size: 85%; }
+table { border-collapse: collapse; } th, td { border: 1px solid #d1d9e0; padding: 6px 13px; }
+.hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type { color: #cf222e; }
+.hljs-string, .hljs-regexp, .hljs-addition { color: #0a3069; }
+.hljs-number, .hljs-literal, .hljs-variable, .hljs-template-variable { color: #0550ae; }
+.hljs-title, .hljs-section, .hljs-function .hljs-title { color: #8250df; }
+.hljs-attr, .hljs-attribute, .hljs-built_in, .hljs-name { color: #953800; }
+.hljs-meta, .hljs-symbol, .hljs-bullet { color: #116329; }
+.hljs-deletion { color: #82071e; background: #ffebe9; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Wraps exported Markdown into a standalone HTML page with code highlighting baked in.
+ */
+export const markdownToHtmlDocument = (markdown: string, title: string): string => {
+  const body = renderToStaticMarkup(
+    React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeHighlight] }, markdown)
+  );
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) =>
+  downloadBlob(fileName, new Blob([content], { type: mimeType }));
+
+export const toFileName = (title: string, extension: string) =>
+  `${title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 60) || 'deepdive'}.${extension}`;
@@ -0,0 +1,115 @@
+import { Column } from "../types";
+
+/**
+ * Depth of every column below its root (roots are 0), following `parentId`.
+ */
+export const getColumnDepths = (columns: Column[]): Map<string, number> => {
+  const byId = new Map(columns.map(col => [col.id, col]));
+  const depths = new Map<string, number>();
+  const depthOf = (col: Column, seen: Set<string>): number => {
+    const known = depths.get(col.id);
+    if (known !== undefined) return known;
+    const parent = col.parentId ? byId.get(col.parentId) : undefined;
+    const depth = parent && !seen.has(parent.id) ? depthOf(parent, seen.add(col.id)) + 1 : 0;
+    depths.set(col.id, depth);
+    return depth;
+  };
+  columns.forEach(col => depthOf(col, new Set()));
+  return depths;
+};
+
+/**
+ * Ids of a column and every column below it, following `parentId`.
+ */
+export const getSubtreeIds = (columns: Column[], rootId: string): Set<string> => {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    columns.forEach(col => {
+      if (!ids.has(col.id) && col.parentId && ids.has(col.parentId)) {
+        ids.add(col.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/**
+ * Number of columns below each column, counting every level.
+ */
+export const countDescendants = (columns: Column[]): Map<string, number> => {
+  const childrenOf = new Map<string, string[]>();
+  columns.forEach(col => {
+    if (col.parentId) childrenOf.set(col.parentId, [...(childrenOf.get(col.parentId) ?? []), col.id]);
+  });
+  const counts = new Map<string, number>();
+  const countOf = (id: string, seen: Set<string>): number => {
+    const known = counts.get(id);
+    if (known !== undefined) return known;
+    seen.add(id);
+    const count = (childrenOf.get(id) ?? [])
+      .filter(childId => !seen.has(childId))
+      .reduce((sum, childId) => sum + 1 + countOf(childId, seen), 0);
+    counts.set(id, count);
+    return count;
+  };
+  columns.forEach(col => countOf(col.id, new Set()));
+  return counts;
+};
+
+/**
+ * Columns hidden from the canvas because an ancestor's subtree is folded.
+ */
+export const getFoldedAwayIds = (columns: Column[]): Set<string> => {
+  const byId = new Map(columns.map(col => [col.id, col]));
+  const hidden = new Set<string>();
+  columns.forEach(col => {
+    const seen = new Set([col.id]);
+    let parent = col.parentId ? byId.get(col.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      if (parent.isFolded) {
+        hidden.add(col.id);
+        return;
+      }
+      seen.add(parent.id);
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+  });
+  return hidden;
+};
+
+/**
+ * Shows columns up to `depth` and folds everything below: columns at `depth` that have
+ * branches are folded, shallower ones unfolded.
+ */
+export const foldBelowDepth = (columns: Column[], depth: number): Column[] => {
+  const depths = getColumnDepths(columns);
+  const counts = countDescendants(columns);
+  return columns.map(col => {
+    const colDepth = depths.get(col.id) ?? 0;
+    if (colDepth === depth && (counts.get(col.id) ?? 0) > 0 && !col.isFolded) return { ...col, isFolded: true };
+    if (colDepth < depth && col.isFolded) return { ...col, isFolded: false };
+    return col;
+  });
+};
+
+export const unfoldAll = (columns: Column[]): Column[] =>
+  columns.map(col => col.isFolded ? { ...col, isFolded: false } : col);
+
+/**
+ * Unfolds the ancestors of a column so it is on the canvas again.
+ */
+export const revealColumn = (columns: Column[], columnId: string): Column[] => {
+  const byId = new Map(columns.map(col => [col.id, col]));
+  const ancestors = new Set<string>();
+  let parentId = byId.get(columnId)?.parentId;
+  while (parentId && !ancestors.has(parentId)) {
+    ancestors.add(parentId);
+    parentId = byId.get(parentId)?.parentId;
+  }
+  return columns.some(col => ancestors.has(col.id) && col.isFolded)
+    ? columns.map(col => ancestors.has(col.id) && col.isFolded ? { ...col, isFolded: false } : col)
+    : columns;
+};
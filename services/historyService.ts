@@ -0,0 +1,176 @@
+import { Column, Message } from "../types";
+import { ChatTurn } from "./llmProvider";
+import { getVariantText } from "./variantService";
+
+/**
+ * The slice of conversation one column on the root-to-target path contributes.
+ */
+export interface HistorySegment {
+  columnId: string;
+  turns: ChatTurn[]; // Messages this column contributes, oldest first
+  branchNote?: ChatTurn; // Simulated prompt introducing the next column on the path
+  isTarget: boolean;
+}
+
+/**
+ * Columns from the root down to (and including) the target column.
+ */
+export const getColumnPath = (targetColumnId: string, columns: Column[]): Column[] => {
+  const byId = new Map(columns.map(c => [c.id, c]));
+  const path: Column[] = [];
+  let currentId: string | null = targetColumnId;
+
+  while (currentId) {
+    const col = byId.get(currentId);
+    if (col) {
+      path.unshift(col);
+      currentId = col.parentId;
+    } else {
+      break;
+    }
+  }
+  return path;
+};
+
+/**
+ * Messages a column contributes to a path: all of them for the last column, otherwise
+ * up to and including the branch point, showing the variant the next column came from.
+ */
+export const getPathMessages = (col: Column, nextCol: Column | null): Message[] => {
+  if (!nextCol) return col.messages;
+  const branchIndex = col.messages.findIndex(m => m.id === nextCol.parentMessageId);
+  if (branchIndex === -1) return col.messages;
+  return col.messages.slice(0, branchIndex + 1).map(msg => msg.id === nextCol.parentMessageId
+    ? { ...msg, text: getVariantText(msg, nextCol.parentVariantId) }
+    : msg
+  );
+};
+
+const describeRole = (role: ChatTurn['role']) => role === 'user' ? 'User' : 'Assistant';
+
+const transcribe = (turns: ChatTurn[]): string =>
+  turns.length > 0
+    ? turns.map(turn => `**${describeRole(turn.role)}:** ${turn.text}`).join('\n\n')
+    : '(no further messages)';
+
+const commonTurnCount = (lists: ChatTurn[][]): number => {
+  let count = 0;
+  while (lists.every(turns => count < turns.length
+    && turns[count].role === lists[0][count].role
+    && turns[count].text === lists[0][count].text)) {
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Every column whose messages can end up in a column's context: its path to the root and, for synthesis
+ * columns on it, the paths of their sources. Columns are immutable, so while none of these objects
+ * change, neither does the context.
+ */
+export const getContextColumns = (targetColumnId: string, byId: Map<string, Column>): Column[] => {
+  const found: Column[] = [];
+  const seen = new Set<string>();
+  const visit = (startId: string) => {
+    let currentId: string | null = startId;
+    while (currentId && !seen.has(currentId)) {
+      const col = byId.get(currentId);
+      if (!col) return;
+      seen.add(col.id);
+      found.push(col);
+      col.mergedFrom?.forEach(visit);
+      currentId = col.parentId;
+    }
+  };
+  visit(targetColumnId);
+  return found;
+};
+
+/**
+ * Context a synthesis column starts from: the history its sources share, followed by
+ * one transcript per source of everything that happened after they diverged.
+ */
+const buildSynthesisSegments = (synthesis: Column, columns: Column[]): HistorySegment[] => {
+  const sources = (synthesis.mergedFrom ?? [])
+    .map(id => columns.find(c => c.id === id))
+    .filter((c): c is Column => !!c);
+  if (sources.length === 0) return [];
+
+  const sourceSegments = sources.map(source => buildHistorySegments(source.id, columns));
+
+  // Segments are identical for as long as the paths run through the same columns
+  let shared = 0;
+  while (sourceSegments.every(segments => shared < segments.length && segments[shared].columnId === sourceSegments[0][shared].columnId)) {
+    shared++;
+  }
+
+  const trunk: HistorySegment[] = sourceSegments[0].slice(0, Math.max(0, shared - 1)).map(segment => ({ ...segment, isTarget: false }));
+  let divergeTurns = 0;
+  if (shared > 0) {
+    // The last shared column is where the sources part ways, possibly at different messages
+    const divergence = sourceSegments.map(segments => segments[shared - 1].turns);
+    divergeTurns = commonTurnCount(divergence);
+    trunk.push({ columnId: sourceSegments[0][shared - 1].columnId, turns: divergence[0].slice(0, divergeTurns), isTarget: false });
+  }
+
+  const branches: HistorySegment[] = sources.map((source, index) => {
+    const segments = sourceSegments[index];
+    const divergence = shared > 0 ? segments[shared - 1] : undefined;
+    const ownTurns = flattenSegments([
+      ...(divergence ? [{ ...divergence, turns: divergence.turns.slice(divergeTurns) }] : []),
+      ...segments.slice(shared)
+    ]);
+    return {
+      columnId: source.id,
+      turns: [{
+        role: 'user',
+        text: `Branch ${index + 1} of ${sources.length}: "${source.title}"\n\n${transcribe(ownTurns)}`
+      }],
+      isTarget: false
+    };
+  });
+
+  return [...trunk, ...branches];
+};
+
+/**
+ * Splits the history of a column into one segment per column on its path.
+ * Messages contribute their active variant, except branch points, which contribute
+ * the variant the next column on the path was spawned from.
+ * When the path runs through a synthesis column, everything before it is replaced
+ * by that column's merged context.
+ */
+export const buildHistorySegments = (targetColumnId: string, columns: Column[]): HistorySegment[] => {
+  const fullPath = getColumnPath(targetColumnId, columns);
+  let synthesisIndex = -1;
+  fullPath.forEach((col, index) => {
+    if (col.mergedFrom?.length) synthesisIndex = index;
+  });
+  const path = synthesisIndex === -1 ? fullPath : fullPath.slice(synthesisIndex);
+  const preamble = synthesisIndex === -1 ? [] : buildSynthesisSegments(path[0], columns);
+
+  return [...preamble, ...path.map((col, index) => {
+    const isTarget = index === path.length - 1;
+    const nextCol = isTarget ? null : path[index + 1];
+
+    // Ancestors only contribute messages up to the point where the branch happened
+    const turns: ChatTurn[] = getPathMessages(col, nextCol).map(msg => ({ role: msg.role, text: msg.text }));
+
+    // If this column branched into the next one, add a simulated user prompt indicating the branch context
+    const branchNote: ChatTurn | undefined = nextCol?.contextSnippet
+      ? { role: 'user', text: `I want to branch off and discuss specifically about: "${nextCol.contextSnippet}"` }
+      : undefined;
+
+    return { columnId: col.id, turns, branchNote, isTarget };
+  })];
+};
+
+export const flattenSegments = (segments: HistorySegment[]): ChatTurn[] =>
+  segments.flatMap(segment => segment.branchNote ? [...segment.turns, segment.branchNote] : segment.turns);
+
+/**
+ * Constructs the history chain for a specific column.
+ * It traverses up the tree of columns to build a coherent conversation history.
+ */
+export const buildHistoryForColumn = (targetColumnId: string, columns: Column[]): ChatTurn[] =>
+  flattenSegments(buildHistorySegments(targetColumnId, columns));
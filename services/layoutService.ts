@@ -0,0 +1,362 @@
+import { Column } from "../types";
+
+export type LayoutMode = 'waterfall' | 'tidy' | 'topDown' | 'radial' | 'timeline';
+
+// Which way connectors leave a card: sideways to a child's edge, or down to its top
+export type ConnectorFlow = 'horizontal' | 'vertical';
+
+export const DEFAULT_LAYOUT_MODE: LayoutMode = 'waterfall';
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string; description: string; flow: ConnectorFlow }[] = [
+  { id: 'waterfall', label: 'Waterfall', description: 'Branches to the right, each below the previous one\'s subtree', flow: 'horizontal' },
+  { id: 'tidy', label: 'Compact tree', description: 'Branches to the right, packed tightly and centered on their parent', flow: 'horizontal' },
+  { id: 'topDown', label: 'Top-down', description: 'Branches below their parent, side by side', flow: 'vertical' },
+  { id: 'radial', label: 'Radial', description: 'Rings of branches around the root thread', flow: 'horizontal' },
+  { id: 'timeline', label: 'Timeline', description: 'Left to right in the order the threads were started', flow: 'horizontal' }
+];
+
+export const isLayoutMode = (value: unknown): value is LayoutMode =>
+  LAYOUT_MODES.some(mode => mode.id === value);
+
+export const getConnectorFlow = (mode: LayoutMode): ConnectorFlow =>
+  LAYOUT_MODES.find(m => m.id === mode)?.flow ?? 'horizontal';
+
+/**
+ * Where a node sits on the canvas: `x` is its left edge, `y` its vertical center.
+ */
+export interface NodePosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Layout = Map<string, NodePosition>;
+
+export interface LayoutMetrics {
+  nodeWidth: number; // Columns that haven't been resized
+  defaultHeight: number; // Used until a node has been measured
+  gapX: number; // Between a parent and its branches
+  gapY: number; // Between sibling subtrees
+  clusterGapY: number; // Between siblings fanned out together
+}
+
+const TIMELINE_PX_PER_MINUTE = 40; // A gap of this many pixels per minute between thread starts, up to a card's width
+
+type ChildLookup = (parentId: string | null) => Column[];
+
+interface NodeSizes {
+  widthOf: (id: string) => number;
+  heightOf: (id: string) => number;
+}
+
+type LayoutEngine = (getChildren: ChildLookup, sizes: NodeSizes, metrics: LayoutMetrics) => Layout;
+
+// A folded column's subtree takes no space at all
+const getChildLookup = (columns: Column[]): ChildLookup => {
+  const foldedIds = new Set(columns.filter(c => c.isFolded).map(c => c.id));
+  const byParent = new Map<string | null, Column[]>();
+  columns.forEach(col => byParent.set(col.parentId, [...(byParent.get(col.parentId) ?? []), col]));
+  return parentId => parentId && foldedIds.has(parentId) ? [] : byParent.get(parentId) ?? [];
+};
+
+const siblingGap = (previous: Column | undefined, child: Column, metrics: LayoutMetrics) =>
+  previous?.clusterId && previous.clusterId === child.clusterId ? metrics.clusterGapY : metrics.gapY;
+
+// --- Waterfall ---
+
+const waterfallLayout: LayoutEngine = (getChildren, { widthOf, heightOf }, metrics) => {
+  const layout: Layout = new Map();
+
+  // Places a node with its top at `startY` and its branches from the same height down.
+  // Returns the bottom of the node's whole subtree.
+  const positionNode = (nodeId: string, x: number, startY: number): number => {
+    const width = widthOf(nodeId);
+    const height = heightOf(nodeId);
+    layout.set(nodeId, { x, y: startY + height / 2, width, height });
+
+    let childTopY = startY;
+    let subtreeBottom = startY + height;
+    getChildren(nodeId).forEach((child, index, children) => {
+      if (index > 0) childTopY += siblingGap(children[index - 1], child, metrics);
+      const childBottom = positionNode(child.id, x + width + metrics.gapX, childTopY);
+      subtreeBottom = Math.max(subtreeBottom, childBottom);
+      childTopY = childBottom;
+    });
+    return subtreeBottom;
+  };
+
+  let rootTopY = 0;
+  getChildren(null).forEach(root => {
+    rootTopY = positionNode(root.id, 0, rootTopY) + metrics.gapY;
+  });
+  return layout;
+};
+
+// --- Tidy trees (sideways and top-down) ---
+
+interface Extent {
+  start: number;
+  end: number;
+}
+
+// Nodes of a subtree along the breadth axis, and the extent the subtree covers at each depth below its root
+interface PackedTree {
+  nodes: { id: string; depth: number; offset: number }[];
+  contour: Extent[];
+}
+
+const shiftTree = (tree: PackedTree, by: number): PackedTree => ({
+  nodes: tree.nodes.map(node => ({ ...node, offset: node.offset + by })),
+  contour: tree.contour.map(extent => ({ start: extent.start + by, end: extent.end + by }))
+});
+
+const mergeContours = (a: Extent[], b: Extent[]): Extent[] =>
+  Array.from({ length: Math.max(a.length, b.length) }, (_, depth) => ({
+    start: Math.min(a[depth]?.start ?? Infinity, b[depth]?.start ?? Infinity),
+    end: Math.max(a[depth]?.end ?? -Infinity, b[depth]?.end ?? -Infinity)
+  }));
+
+// Lays subtrees side by side, each as close to the ones before it as their contours allow
+const packForest = (trees: PackedTree[], gaps: number[]): PackedTree =>
+  trees.reduce<PackedTree>((packed, tree, index) => {
+    if (index === 0) return tree;
+    const shift = tree.contour.reduce((max, extent, depth) =>
+      packed.contour[depth] ? Math.max(max, packed.contour[depth].end + gaps[index] - extent.start) : max, -Infinity);
+    const moved = shiftTree(tree, shift);
+    return { nodes: [...packed.nodes, ...moved.nodes], contour: mergeContours(packed.contour, moved.contour) };
+  }, { nodes: [], contour: [] });
+
+/**
+ * Tidy tree along one axis: every node is centered on its first and last branch, and neighbouring
+ * subtrees slot into each other's gaps instead of each taking a full band.
+ */
+const packTree = (getChildren: ChildLookup, sizeOf: (id: string) => number, metrics: LayoutMetrics): PackedTree => {
+  const packNode = (nodeId: string): PackedTree => {
+    const size = sizeOf(nodeId);
+    const children = getChildren(nodeId);
+    if (children.length === 0) return { nodes: [{ id: nodeId, depth: 0, offset: 0 }], contour: [{ start: 0, end: size }] };
+
+    const packed = packForest(children.map(child => packNode(child.id)), children.map((child, i) => siblingGap(children[i - 1], child, metrics)));
+    const centerOf = (id: string) => {
+      const node = packed.nodes.find(n => n.id === id)!;
+      return node.offset + sizeOf(id) / 2;
+    };
+    const offset = (centerOf(children[0].id) + centerOf(children[children.length - 1].id)) / 2 - size / 2;
+    return {
+      nodes: [{ id: nodeId, depth: 0, offset }, ...packed.nodes.map(node => ({ ...node, depth: node.depth + 1 }))],
+      contour: [{ start: offset, end: offset + size }, ...packed.contour]
+    };
+  };
+
+  const roots = getChildren(null);
+  const forest = packForest(roots.map(root => packNode(root.id)), roots.map(() => metrics.gapY));
+  // The first root starts at the origin, as in the waterfall
+  return shiftTree(forest, -(forest.nodes[0]?.offset ?? 0));
+};
+
+// Every level starts past the widest (sideways) or tallest (top-down) card of the level before it
+const getLevelStarts = (nodes: PackedTree['nodes'], sizeOf: (id: string) => number, gap: number): number[] => {
+  const levelSizes: number[] = [];
+  nodes.forEach(({ id, depth }) => { levelSizes[depth] = Math.max(levelSizes[depth] ?? 0, sizeOf(id)); });
+  return levelSizes.reduce<number[]>((starts, _, depth) =>
+    [...starts, depth === 0 ? 0 : starts[depth - 1] + levelSizes[depth - 1] + gap], []);
+};
+
+const tidyLayout: LayoutEngine = (getChildren, { widthOf, heightOf }, metrics) => {
+  const layout: Layout = new Map();
+  const { nodes } = packTree(getChildren, heightOf, metrics);
+  const levelLefts = getLevelStarts(nodes, widthOf, metrics.gapX);
+  nodes.forEach(({ id, depth, offset }) => {
+    const height = heightOf(id);
+    layout.set(id, { x: levelLefts[depth], y: offset + height / 2, width: widthOf(id), height });
+  });
+  return layout;
+};
+
+const topDownLayout: LayoutEngine = (getChildren, { widthOf, heightOf }, metrics) => {
+  const layout: Layout = new Map();
+  const { nodes } = packTree(getChildren, widthOf, metrics);
+  const levelTops = getLevelStarts(nodes, heightOf, metrics.gapX);
+  nodes.forEach(({ id, depth, offset }) => {
+    const height = heightOf(id);
+    layout.set(id, { x: offset, y: levelTops[depth] + height / 2, width: widthOf(id), height });
+  });
+  return layout;
+};
+
+// --- Radial ---
+
+const radialLayout: LayoutEngine = (getChildren, { widthOf, heightOf }, metrics) => {
+  const layout: Layout = new Map();
+
+  // Branches get a share of their parent's wedge in proportion to the leaves below them
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const children = getChildren(id);
+    const count = children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child.id), 0);
+    leafCounts.set(id, count);
+    return count;
+  };
+
+  let nextLeft = 0;
+  getChildren(null).forEach(root => {
+    countLeaves(root.id);
+    const wedges: { id: string; depth: number; angle: number; span: number }[] = [];
+    const assign = (id: string, depth: number, from: number, span: number) => {
+      wedges.push({ id, depth, angle: from + span / 2, span });
+      let cursor = from;
+      getChildren(id).forEach(child => {
+        const share = span * (leafCounts.get(child.id) ?? 1) / (leafCounts.get(id) ?? 1);
+        assign(child.id, depth + 1, cursor, share);
+        cursor += share;
+      });
+    };
+    assign(root.id, 0, -Math.PI / 2, Math.PI * 2);
+
+    // Each ring is far enough out that neighbouring cards on it don't overlap
+    const radii: number[] = [0];
+    wedges.forEach(({ id, depth, angle, span }) => {
+      if (depth === 0) return;
+      const across = Math.abs(Math.sin(angle)) * widthOf(id) + Math.abs(Math.cos(angle)) * heightOf(id) + metrics.gapY;
+      radii[depth] = Math.max(radii[depth] ?? 0, across / Math.min(span, Math.PI));
+    });
+    // ...and clear of the ring inside it, even where the cards on both are at their widest
+    const ringWidths: number[] = [];
+    wedges.forEach(({ id, depth }) => { ringWidths[depth] = Math.max(ringWidths[depth] ?? 0, widthOf(id)); });
+    for (let depth = 1; depth < radii.length; depth++) {
+      radii[depth] = Math.max(radii[depth] ?? 0, radii[depth - 1] + (ringWidths[depth - 1] + ringWidths[depth]) / 2 + metrics.gapX);
+    }
+
+    const placed = wedges.map(({ id, depth, angle }) => {
+      const width = widthOf(id);
+      return { id, width, height: heightOf(id), x: radii[depth] * Math.cos(angle) - width / 2, y: radii[depth] * Math.sin(angle) };
+    });
+
+    // Several roots stand side by side
+    const left = Math.min(...placed.map(p => p.x));
+    const right = Math.max(...placed.map(p => p.x + p.width));
+    placed.forEach(({ id, width, height, x, y }) => layout.set(id, { x: x - left + nextLeft, y, width, height }));
+    nextLeft += right - left + metrics.gapX;
+  });
+  return layout;
+};
+
+// --- Timeline ---
+
+const timelineLayout: LayoutEngine = (getChildren, { widthOf, heightOf }, metrics) => {
+  const layout: Layout = new Map();
+
+  // A thread starts with its first message; one that has none yet starts with its parent
+  const visible: { col: Column; start: number }[] = [];
+  const visit = (col: Column, parentStart: number) => {
+    const start = col.messages.length > 0 ? Math.min(...col.messages.map(m => m.timestamp)) : parentStart;
+    visible.push({ col, start });
+    getChildren(col.id).forEach(child => visit(child, start));
+  };
+  getChildren(null).forEach(root => visit(root, 0));
+  visible.sort((a, b) => a.start - b.start);
+
+  // Threads overlapping in x take separate lanes, preferring their parent's
+  const laneOf = new Map<string, number>();
+  const laneFreeFrom: number[] = [];
+  const laneHeights: number[] = [];
+  const xOf = new Map<string, number>();
+  let x = 0;
+  visible.forEach(({ col, start }, index) => {
+    if (index > 0) {
+      const minutes = (start - visible[index - 1].start) / 60000;
+      x += Math.min(metrics.nodeWidth + metrics.gapX, Math.max(0, minutes * TIMELINE_PX_PER_MINUTE));
+    }
+    const parentLane = col.parentId ? laneOf.get(col.parentId) : undefined;
+    let lane = parentLane !== undefined && laneFreeFrom[parentLane] <= x
+      ? parentLane
+      : laneFreeFrom.findIndex(freeFrom => freeFrom <= x);
+    if (lane === -1) lane = laneFreeFrom.length;
+    laneOf.set(col.id, lane);
+    laneFreeFrom[lane] = x + widthOf(col.id) + metrics.gapX;
+    laneHeights[lane] = Math.max(laneHeights[lane] ?? 0, heightOf(col.id));
+    xOf.set(col.id, x);
+  });
+
+  const laneTops = laneHeights.reduce<number[]>((tops, _, lane) =>
+    [...tops, lane === 0 ? 0 : tops[lane - 1] + laneHeights[lane - 1] + metrics.gapY], []);
+  visible.forEach(({ col }) => {
+    const height = heightOf(col.id);
+    layout.set(col.id, { x: xOf.get(col.id) ?? 0, y: laneTops[laneOf.get(col.id) ?? 0] + height / 2, width: widthOf(col.id), height });
+  });
+  return layout;
+};
+
+const LAYOUT_ENGINES: Record<LayoutMode, LayoutEngine> = {
+  waterfall: waterfallLayout,
+  tidy: tidyLayout,
+  topDown: topDownLayout,
+  radial: radialLayout,
+  timeline: timelineLayout
+};
+
+/**
+ * Base position of every column on the canvas, before manual drags are added. Columns below a
+ * folded column, and columns whose parent is gone, are left out.
+ */
+export const calculateLayout = (columns: Column[], nodeHeights: Map<string, number>, mode: LayoutMode, metrics: LayoutMetrics): Layout => {
+  const widths = new Map(columns.map(col => [col.id, col.width ?? metrics.nodeWidth]));
+  return LAYOUT_ENGINES[mode](getChildLookup(columns), {
+    widthOf: id => widths.get(id) ?? metrics.nodeWidth,
+    heightOf: id => nodeHeights.get(id) || metrics.defaultHeight
+  }, metrics);
+};
+
+/**
+ * Positions `t` of the way (0 to 1) from `from` to `to`. Nodes that weren't in `from` appear at their target.
+ */
+export const interpolateLayout = (from: Layout, to: Layout, t: number): Layout => {
+  const layout: Layout = new Map();
+  to.forEach((target, id) => {
+    const start = from.get(id) ?? target;
+    layout.set(id, {
+      x: start.x + (target.x - start.x) * t,
+      y: start.y + (target.y - start.y) * t,
+      width: target.width,
+      height: target.height
+    });
+  });
+  return layout;
+};
+
+/**
+ * Keeps manual drags only where they moved a whole branch: each dragged column closest to the root
+ * passes its offset on to everything below it, so the branch keeps the spot it was dragged to but is
+ * laid out neatly inside. Drags of columns inside an already dragged branch are dropped.
+ */
+export const rebaseOffsets = (columns: Column[], offsets: Map<string, { x: number; y: number }>): Map<string, { x: number; y: number }> => {
+  const byId = new Map(columns.map(col => [col.id, col]));
+  const rebased = new Map<string, { x: number; y: number }>();
+  columns.forEach(col => {
+    let inherited: { x: number; y: number } | undefined;
+    const seen = new Set<string>();
+    let current: Column | undefined = col;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      const offset = offsets.get(current.id);
+      if (offset && (offset.x !== 0 || offset.y !== 0)) inherited = offset;
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    if (inherited) rebased.set(col.id, inherited);
+  });
+  return rebased;
+};
+
+/**
+ * SVG path of a connector. Horizontal connectors leave and enter sideways, vertical ones leave
+ * downwards and enter the child's top.
+ */
+export const getConnectorPath = (startX: number, startY: number, endX: number, endY: number, flow: ConnectorFlow): string => {
+  if (flow === 'vertical') {
+    const bend = Math.abs(endY - startY) * 0.5;
+    return `M ${startX} ${startY} C ${startX} ${startY + bend}, ${endX} ${endY - bend}, ${endX} ${endY}`;
+  }
+  const bend = (endX - startX) * 0.5;
+  return `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`;
+};
@@ -0,0 +1,43 @@
+import { ModelSettings, UsageStats } from "../types";
+import { ProviderId } from "./settingsService";
+
+/**
+ * A single turn of provider-neutral chat history.
+ */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Per-request overrides on top of the provider's configured defaults.
+export type GenerationOptions = ModelSettings;
+
+export interface GenerationRequest {
+  history: ChatTurn[]; // Everything before `message`, oldest first
+  message: string;
+  options?: GenerationOptions;
+  signal?: AbortSignal; // Aborting rejects the stream; callers check `signal.aborted`
+}
+
+/**
+ * Common contract for every backend DeepDive can talk to.
+ * Implementations stream text through `onChunk`, resolve with whatever usage
+ * the backend reported, and reject with a `ProviderError` on failure.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  streamReply: (request: GenerationRequest, onChunk: (text: string) => void) => Promise<UsageStats | undefined>;
+}
+
+export class ProviderError extends Error {
+  providerId: ProviderId;
+  status?: number;
+
+  constructor(providerId: ProviderId, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.providerId = providerId;
+    this.status = status;
+  }
+}
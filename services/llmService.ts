@@ -0,0 +1,147 @@
+import { Column, MessageStatus, ModelSettings, UsageStats } from "../types";
+import { ProviderSettings } from "./settingsService";
+import { ChatTurn, GenerationOptions, LLMProvider } from "./llmProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openaiCompatibleService";
+import { createScriptedProvider } from "./scriptedService";
+import { buildHistorySegments } from "./historyService";
+import { ContextPlan, planContext, prepareContext, summaryLookupFromColumns } from "./contextService";
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.activeProvider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'scripted':
+      return createScriptedProvider(settings.scripted);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+};
+
+/**
+ * Layers model settings left to right: later layers win, but unset or empty fields never override.
+ */
+export const mergeModelSettings = (...layers: (ModelSettings | undefined)[]): ModelSettings => {
+  const merged: ModelSettings = {};
+  layers.forEach(layer => {
+    if (!layer) return;
+    (Object.keys(layer) as (keyof ModelSettings)[]).forEach(key => {
+      const value = layer[key];
+      if (value !== undefined && value !== '') {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    });
+  });
+  return merged;
+};
+
+/**
+ * Default model of the active provider, used when nothing on the column overrides it.
+ */
+export const getDefaultModel = (settings: ProviderSettings): string => {
+  switch (settings.activeProvider) {
+    case 'openai':
+      return settings.openai.model;
+    case 'scripted':
+      return 'scripted';
+    case 'gemini':
+    default:
+      return settings.gemini.model;
+  }
+};
+
+export interface StreamCallbacks {
+  onChunk: (text: string) => void;
+  onUsage?: (usage: UsageStats) => void;
+  onSummary?: (columnId: string, key: string, summary: string) => void; // Cache hook for ancestor summaries
+}
+
+export interface GenerationOutcome {
+  status: Extract<MessageStatus, 'done' | 'cancelled' | 'failed'>;
+  error?: string;
+}
+
+/**
+ * What the next message in a column would send under the current context policy.
+ * Summaries that are not cached yet show up as pending placeholders.
+ */
+export const planColumnContext = (
+  targetColumnId: string,
+  message: string,
+  columns: Column[],
+  settings: ProviderSettings,
+  options?: GenerationOptions
+): ContextPlan => planContext(
+  buildHistorySegments(targetColumnId, columns),
+  message,
+  settings.context,
+  summaryLookupFromColumns(columns),
+  options?.systemPrompt
+);
+
+/**
+ * Generates and caches any missing ancestor summaries for a column without sending anything.
+ */
+export const prepareColumnContext = (
+  targetColumnId: string,
+  message: string,
+  columns: Column[],
+  settings: ProviderSettings,
+  onSummary: (columnId: string, key: string, summary: string) => void,
+  options?: GenerationOptions
+): Promise<ContextPlan> => prepareContext(
+  buildHistorySegments(targetColumnId, columns),
+  message,
+  settings.context,
+  summaryLookupFromColumns(columns),
+  createProvider(settings),
+  onSummary,
+  options?.systemPrompt
+);
+
+/**
+ * Streams a reply for `userMessage` in the target column from the active provider.
+ * Successor of the former Gemini-only `streamGeminiResponse`.
+ * Never rejects: failures and cancellations are reported through the returned outcome.
+ */
+export const streamColumnResponse = async (
+  targetColumnId: string,
+  userMessage: string,
+  columns: Column[],
+  settings: ProviderSettings,
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  options?: GenerationOptions
+): Promise<GenerationOutcome> => {
+  const provider = createProvider(settings);
+
+  try {
+    // History excludes the new user message we are about to send, and is
+    // compressed to the context budget first (which may itself call the model)
+    const plan = await prepareContext(
+      buildHistorySegments(targetColumnId, columns),
+      userMessage,
+      settings.context,
+      summaryLookupFromColumns(columns),
+      provider,
+      callbacks.onSummary ?? (() => {}),
+      options?.systemPrompt,
+      signal
+    );
+    const history: ChatTurn[] = plan.turns.map(({ role, text }) => ({ role, text }));
+
+    const usage = await provider.streamReply({ history, message: userMessage, options, signal }, callbacks.onChunk);
+    if (usage && callbacks.onUsage) {
+      callbacks.onUsage(usage);
+    }
+    return { status: signal?.aborted ? 'cancelled' : 'done' };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { status: 'cancelled' };
+    }
+    console.error(`${provider.label} error:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return { status: 'failed', error: `${provider.label}: ${reason}` };
+  }
+};
@@ -0,0 +1,120 @@
+import { UsageStats } from "../types";
+import { ProviderSettings } from "./settingsService";
+import { ChatTurn, LLMProvider, ProviderError } from "./llmProvider";
+
+const toOpenAIMessages = (history: ChatTurn[], message: string, systemPrompt?: string) => [
+  ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+  ...history.map(turn => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.text
+  })),
+  { role: 'user', content: message }
+];
+
+/** The parts of a streamed `/chat/completions` chunk that are read; servers add more. */
+interface StreamChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  error?: { message?: string } | string;
+}
+
+const isStreamChunk = (value: unknown): value is StreamChunk => {
+  if (!value || typeof value !== 'object') return false;
+  const chunk = value as Record<string, unknown>;
+  return (chunk.choices === undefined || Array.isArray(chunk.choices))
+    && (chunk.usage === undefined || chunk.usage === null || typeof chunk.usage === 'object');
+};
+
+const chunkText = (chunk: StreamChunk): string | undefined => {
+  const content = chunk.choices?.[0]?.delta?.content;
+  return typeof content === 'string' ? content : undefined;
+};
+
+const toTokenCount = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` streaming API
+ * (OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio...).
+ */
+export const createOpenAICompatibleProvider = (settings: ProviderSettings['openai']): LLMProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  streamReply: async (request, onChunk) => {
+    const url = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.options?.model || settings.model,
+          messages: toOpenAIMessages(request.history, request.message, request.options?.systemPrompt),
+          temperature: request.options?.temperature,
+          max_tokens: request.options?.maxOutputTokens,
+          stream: true,
+          stream_options: { include_usage: true }
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new ProviderError('openai', `Could not reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError('openai', `Request failed with ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`, response.status);
+    }
+
+    let usage: UsageStats | undefined;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Server-sent events: one `data: {...}` payload per line, terminated by `data: [DONE]`
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return usage;
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (!isStreamChunk(payload)) continue;
+        if (payload.error) {
+          const message = typeof payload.error === 'string' ? payload.error : payload.error.message;
+          throw new ProviderError('openai', typeof message === 'string' ? message : JSON.stringify(payload.error));
+        }
+        const text = chunkText(payload);
+        if (text) {
+          onChunk(text);
+        }
+        if (payload.usage) {
+          usage = {
+            promptTokens: toTokenCount(payload.usage.prompt_tokens),
+            outputTokens: toTokenCount(payload.usage.completion_tokens),
+            totalTokens: toTokenCount(payload.usage.total_tokens)
+          };
+        }
+      }
+    }
+    return usage;
+  }
+});
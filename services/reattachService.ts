@@ -0,0 +1,91 @@
+import { Column } from "../types";
+import { getActiveVariantId } from "./variantService";
+
+/**
+ * Where a branch is moved to. Branches hang off a model reply, and off the variant of it that is showing.
+ */
+export interface ReattachTarget {
+  parentId: string;
+  parentMessageId: string;
+  contextSnippet: string | null;
+}
+
+/**
+ * A column together with its alternate timelines: they share a branch point, so they move as one.
+ */
+export const getBranchGroupIds = (columns: Column[], columnId: string): string[] => {
+  const column = columns.find(c => c.id === columnId);
+  if (!column) return [];
+  const key = column.timelineOf ?? column.id;
+  return columns.filter(c => c.id === key || c.timelineOf === key).map(c => c.id);
+};
+
+/**
+ * Every column whose context runs through one of `ids`: branches below them, and synthesis
+ * columns that merge any of those. The given columns themselves are not included.
+ */
+export const getDependentIds = (columns: Column[], ids: string[]): Set<string> => {
+  const reached = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    columns.forEach(col => {
+      if (reached.has(col.id)) return;
+      const feedsFrom = [col.parentId, ...(col.mergedFrom ?? [])];
+      if (feedsFrom.some(id => id && reached.has(id))) {
+        reached.add(col.id);
+        added = true;
+      }
+    });
+  }
+  ids.forEach(id => reached.delete(id));
+  return reached;
+};
+
+/**
+ * Why `columnId` can't be moved under the given message, or null if it can.
+ */
+export const getReattachError = (columns: Column[], columnId: string, parentId: string, parentMessageId: string): string | null => {
+  const column = columns.find(c => c.id === columnId);
+  const parent = columns.find(c => c.id === parentId);
+  const message = parent?.messages.find(m => m.id === parentMessageId);
+  if (!column || !parent || !message) return 'That message no longer exists';
+  if (!column.parentId) return 'The root thread can\'t be moved';
+  if (column.mergedFrom?.length) return 'Synthesis columns stay under the branches they merge';
+  if (message.role !== 'model') return 'Branches start from AI replies';
+
+  const group = getBranchGroupIds(columns, columnId);
+  if (group.includes(parentId)) return 'A thread can\'t branch from itself';
+  if (getDependentIds(columns, group).has(parentId)) return 'That reply is inside this branch';
+  if (column.parentId === parentId && column.parentMessageId === parentMessageId) return 'The branch already starts there';
+  return null;
+};
+
+/**
+ * Moves a branch and its alternate timelines under another message. They no longer belong to the
+ * fan-out they were created in, and every column whose context changed with the move that already
+ * has replies is flagged, since those replies were generated under the old history.
+ */
+export const reattachColumn = (columns: Column[], columnId: string, target: ReattachTarget, now: number = Date.now()): Column[] => {
+  const parent = columns.find(c => c.id === target.parentId);
+  const message = parent?.messages.find(m => m.id === target.parentMessageId);
+  if (!message) return columns;
+  const activeVariantId = getActiveVariantId(message);
+  const group = getBranchGroupIds(columns, columnId);
+  const affected = new Set([...group, ...getDependentIds(columns, group)]);
+
+  return columns.map(col => {
+    if (!affected.has(col.id)) return col;
+    const hasReplies = col.messages.some(m => m.role === 'model');
+    const moved: Column = hasReplies ? { ...col, reattachedAt: now } : { ...col };
+    if (group.includes(col.id)) {
+      moved.parentId = target.parentId;
+      moved.parentMessageId = target.parentMessageId;
+      moved.parentVariantId = activeVariantId;
+      moved.contextSnippet = target.contextSnippet;
+      moved.sourceAnchor = undefined; // Offsets into the old reply mean nothing in the new one
+      moved.clusterId = undefined;
+    }
+    return moved;
+  });
+};
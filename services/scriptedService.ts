@@ -0,0 +1,46 @@
+import { ProviderSettings } from "./settingsService";
+import { LLMProvider } from "./llmProvider";
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parseReplies = (raw: string) => raw
+  .split(/^\s*---\s*$/m)
+  .map(reply => reply.trim())
+  .filter(reply => reply.length > 0);
+
+/**
+ * Offline provider for demos and tests. Replies only depend on the
+ * conversation, so the same tree always produces the same answers.
+ */
+export const createScriptedProvider = (settings: ProviderSettings['scripted']): LLMProvider => {
+  const replies = parseReplies(settings.replies);
+
+  return {
+    id: 'scripted',
+    label: 'Scripted (offline)',
+    streamReply: async (request, onChunk) => {
+      const turn = request.history.filter(t => t.role === 'user').length;
+      const reply = replies.length > 0
+        ? replies[turn % replies.length]
+        : `**Scripted reply #${turn + 1}**\n\nYou asked:\n\n> ${request.message}\n\nThis answer comes from the offline scripted provider, with ${request.history.length} earlier turns of context.`;
+
+      // Stream word by word so the UI behaves like a real backend,
+      // stopping early like a real model would when the output budget runs out
+      const allPieces = reply.match(/\S+\s*/g) ?? [reply];
+      const maxChars = request.options?.maxOutputTokens ? request.options.maxOutputTokens * 4 : Infinity;
+      let budget = 0;
+      const pieces = allPieces.filter(piece => (budget += piece.length) <= maxChars);
+      for (const piece of pieces) {
+        await wait(settings.chunkDelayMs);
+        if (request.signal?.aborted) {
+          throw new DOMException('The generation was cancelled.', 'AbortError');
+        }
+        onChunk(piece);
+      }
+
+      const promptTokens = Math.ceil((request.history.reduce((sum, t) => sum + t.text.length, 0) + request.message.length) / 4);
+      const outputTokens = Math.ceil(pieces.join('').length / 4);
+      return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+    }
+  };
+};
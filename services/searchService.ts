@@ -0,0 +1,156 @@
+import { Column, Message } from "../types";
+import { getColumnDepths, getSubtreeIds } from "./foldService";
+
+export type SearchRoleFilter = 'all' | 'user' | 'model';
+
+export interface SearchFilters {
+  role: SearchRoleFilter;
+  maxDepth: number | null; // Branch depth below the root; null for any
+  subtreeOf: string | null; // Only the given column and the branches below it
+}
+
+export interface SearchResult {
+  id: string;
+  columnId: string;
+  messageId: string | null; // Null for matches in a column's title or source snippet
+  field: 'title' | 'snippet' | 'message';
+  role?: Message['role'];
+  columnTitle: string;
+  depth: number;
+  context: string; // Excerpt around the first match
+  score: number;
+  timestamp: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export const MAX_SEARCH_RESULTS = 50;
+const CONTEXT_BEFORE = 40;
+const CONTEXT_AFTER = 100;
+const MAX_COUNTED_OCCURRENCES = 3; // Per term, so one long answer can't outrank everything
+const FIELD_WEIGHTS: Record<SearchResult['field'], number> = { title: 3, snippet: 2, message: 1 };
+const PHRASE_BONUS = 2;
+
+/**
+ * Lower-cased search terms; quoted parts are kept together as a phrase.
+ */
+export const getSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  query.toLowerCase().replace(/"([^"]+)"|(\S+)/g, (_, phrase: string | undefined, word: string | undefined) => {
+    const term = (phrase ?? word ?? '').trim();
+    if (term) terms.push(term);
+    return '';
+  });
+  return terms;
+};
+
+/**
+ * Every occurrence of any term in `text`, case-insensitive, sorted and merged where they overlap.
+ */
+export const findTermRanges = (text: string, terms: string[]): TextRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  terms.forEach(term => {
+    let idx = lower.indexOf(term);
+    while (idx !== -1) {
+      ranges.push({ start: idx, end: idx + term.length });
+      idx = lower.indexOf(term, idx + term.length);
+    }
+  });
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: TextRange[] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return merged;
+};
+
+const scoreText = (text: string, terms: string[], phrase: string): number | null => {
+  const lower = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    let count = 0;
+    let idx = lower.indexOf(term);
+    while (idx !== -1 && count < MAX_COUNTED_OCCURRENCES) {
+      count++;
+      idx = lower.indexOf(term, idx + term.length);
+    }
+    // Every term has to appear
+    if (count === 0) return null;
+    score += count;
+  }
+  return terms.length > 1 && lower.includes(phrase) ? score + PHRASE_BONUS : score;
+};
+
+const excerpt = (text: string, terms: string[]): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = findTermRanges(flat, terms)[0];
+  if (!first) return flat.slice(0, CONTEXT_BEFORE + CONTEXT_AFTER);
+  const start = Math.max(0, first.start - CONTEXT_BEFORE);
+  const end = Math.min(flat.length, first.end + CONTEXT_AFTER);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+/**
+ * Ranked full-text search over column titles, source snippets and message text.
+ * All terms must match within one field; titles and snippets weigh more than message text.
+ */
+export const searchTree = (columns: Column[], query: string, filters: SearchFilters): SearchResult[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+  const phrase = query.toLowerCase().replace(/"/g, '').trim();
+  const depths = getColumnDepths(columns);
+  const subtree = filters.subtreeOf ? getSubtreeIds(columns, filters.subtreeOf) : null;
+  const results: SearchResult[] = [];
+
+  columns.forEach(col => {
+    const depth = depths.get(col.id) ?? 0;
+    if (filters.maxDepth !== null && depth > filters.maxDepth) return;
+    if (subtree && !subtree.has(col.id)) return;
+    const base = { columnId: col.id, columnTitle: col.title, depth };
+    const lastActivity = col.messages[col.messages.length - 1]?.timestamp ?? 0;
+
+    if (filters.role === 'all') {
+      ([['title', col.title], ['snippet', col.contextSnippet]] as const).forEach(([field, text]) => {
+        if (!text) return;
+        const score = scoreText(text, terms, phrase);
+        if (score === null) return;
+        results.push({
+          ...base,
+          id: `${col.id}:${field}`,
+          messageId: null,
+          field,
+          context: excerpt(text, terms),
+          score: score * FIELD_WEIGHTS[field],
+          timestamp: lastActivity
+        });
+      });
+    }
+
+    col.messages.forEach(msg => {
+      if (filters.role !== 'all' && msg.role !== filters.role) return;
+      const score = scoreText(msg.text, terms, phrase);
+      if (score === null) return;
+      results.push({
+        ...base,
+        id: `${col.id}:${msg.id}`,
+        messageId: msg.id,
+        field: 'message',
+        role: msg.role,
+        context: excerpt(msg.text, terms),
+        score: score * FIELD_WEIGHTS.message,
+        timestamp: msg.timestamp
+      });
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, MAX_SEARCH_RESULTS);
+};
@@ -0,0 +1,83 @@
+const SETTINGS_KEY = 'deepdive-ai.provider-settings';
+
+export type ProviderId = 'gemini' | 'openai' | 'scripted';
+
+export type ContextStrategy = 'none' | 'trim' | 'summarize';
+
+/**
+ * How much ancestor history a branch may send, and what to do when it doesn't fit.
+ */
+export interface ContextPolicy {
+  maxContextTokens: number;
+  strategy: ContextStrategy;
+  keepRecentTurns: number; // Newest turns that are never trimmed
+}
+
+export interface ProviderSettings {
+  activeProvider: ProviderId;
+  gemini: {
+    apiKey: string; // Empty means "use the key baked in at build time"
+    model: string;
+  };
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+  };
+  scripted: {
+    replies: string; // Replies separated by lines containing only "---"
+    chunkDelayMs: number;
+  };
+  context: ContextPolicy;
+  maxConcurrentBranches: number; // Fan-out branches streaming at once; the rest wait their turn
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  activeProvider: 'gemini',
+  gemini: {
+    apiKey: '',
+    model: 'gemini-3-flash-preview'
+  },
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: 'llama3.1'
+  },
+  scripted: {
+    replies: '',
+    chunkDelayMs: 30
+  },
+  context: {
+    maxContextTokens: 32000,
+    strategy: 'summarize',
+    keepRecentTurns: 6
+  },
+  maxConcurrentBranches: 3
+};
+
+/**
+ * Reads provider settings from localStorage, filling in defaults for any
+ * section missing from older saved copies.
+ */
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const saved = JSON.parse(raw);
+    return {
+      activeProvider: saved.activeProvider ?? DEFAULT_PROVIDER_SETTINGS.activeProvider,
+      gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, ...saved.gemini },
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...saved.openai },
+      scripted: { ...DEFAULT_PROVIDER_SETTINGS.scripted, ...saved.scripted },
+      context: { ...DEFAULT_PROVIDER_SETTINGS.context, ...saved.context },
+      maxConcurrentBranches: saved.maxConcurrentBranches ?? DEFAULT_PROVIDER_SETTINGS.maxConcurrentBranches
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable provider settings:", error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,182 @@
+import { Column } from "../types";
+import { normalizeShortcut } from "./branchActionService";
+import { LAYOUT_MODES, LayoutMode } from "./layoutService";
+
+const SHORTCUTS_KEY = 'deepdive-ai.shortcuts';
+
+export type CommandId =
+  | 'selectParent'
+  | 'selectFirstChild'
+  | 'selectPreviousSibling'
+  | 'selectNextSibling'
+  | 'focusInput'
+  | 'toggleCollapse'
+  | 'toggleFold'
+  | 'closeBranch'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomToFit'
+  | 'undo'
+  | 'redo'
+  | 'search'
+  | 'toggleOutline'
+  | 'unfoldAll'
+  | 'autoArrange'
+  | 'snapshots'
+  | 'export'
+  | 'import'
+  | 'branchActions'
+  | 'settings'
+  | 'home'
+  | 'commandPalette'
+  | 'showShortcuts'
+  | `layout.${LayoutMode}`;
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: 'Navigate' | 'Edit' | 'View' | 'Panels';
+  defaultShortcuts: string[]; // e.g. ["Ctrl+Shift+Z", "Ctrl+Y"]; Ctrl also matches Cmd on macOS
+  inTextFields?: boolean; // Also fires while typing in a text field
+  repeats?: boolean; // Fires again while the key is held down
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'selectParent', label: 'Select parent', group: 'Navigate', defaultShortcuts: ['ArrowLeft'], repeats: true },
+  { id: 'selectFirstChild', label: 'Select first branch', group: 'Navigate', defaultShortcuts: ['ArrowRight'], repeats: true },
+  { id: 'selectPreviousSibling', label: 'Select previous sibling', group: 'Navigate', defaultShortcuts: ['ArrowUp'], repeats: true },
+  { id: 'selectNextSibling', label: 'Select next sibling', group: 'Navigate', defaultShortcuts: ['ArrowDown'], repeats: true },
+  { id: 'focusInput', label: 'Type a message to the selected thread', group: 'Navigate', defaultShortcuts: ['/'] },
+  { id: 'toggleCollapse', label: 'Collapse or expand the selected column', group: 'Edit', defaultShortcuts: ['C'] },
+  { id: 'toggleFold', label: 'Fold or unfold the branches of the selected column', group: 'Edit', defaultShortcuts: [] },
+  { id: 'closeBranch', label: 'Close the selected branch', group: 'Edit', defaultShortcuts: ['Ctrl+Backspace', 'Ctrl+Delete'] },
+  { id: 'undo', label: 'Undo', group: 'Edit', defaultShortcuts: ['Ctrl+Z'] },
+  { id: 'redo', label: 'Redo', group: 'Edit', defaultShortcuts: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  { id: 'unfoldAll', label: 'Unfold everything', group: 'Edit', defaultShortcuts: [] },
+  { id: 'autoArrange', label: 'Auto-arrange', group: 'Edit', defaultShortcuts: [] },
+  { id: 'zoomIn', label: 'Zoom in', group: 'View', defaultShortcuts: ['='], repeats: true },
+  { id: 'zoomOut', label: 'Zoom out', group: 'View', defaultShortcuts: ['-'], repeats: true },
+  { id: 'zoomToFit', label: 'Zoom to fit', group: 'View', defaultShortcuts: ['Shift+1'] },
+  ...LAYOUT_MODES.map((mode): CommandDefinition => ({
+    id: `layout.${mode.id}`,
+    label: `Layout: ${mode.label}`,
+    group: 'View',
+    defaultShortcuts: []
+  })),
+  { id: 'commandPalette', label: 'Command palette', group: 'Panels', defaultShortcuts: ['Ctrl+K'], inTextFields: true },
+  { id: 'showShortcuts', label: 'Keyboard shortcuts', group: 'Panels', defaultShortcuts: ['Shift+?'] },
+  { id: 'search', label: 'Search', group: 'Panels', defaultShortcuts: ['Ctrl+F'], inTextFields: true },
+  { id: 'toggleOutline', label: 'Show or hide the outline', group: 'Panels', defaultShortcuts: [] },
+  { id: 'snapshots', label: 'Snapshots', group: 'Panels', defaultShortcuts: [] },
+  { id: 'export', label: 'Export', group: 'Panels', defaultShortcuts: [] },
+  { id: 'import', label: 'Import', group: 'Panels', defaultShortcuts: [] },
+  { id: 'branchActions', label: 'Edit branch actions', group: 'Panels', defaultShortcuts: [] },
+  { id: 'settings', label: 'Settings', group: 'Panels', defaultShortcuts: [] },
+  { id: 'home', label: 'Save and go home', group: 'Panels', defaultShortcuts: [] }
+];
+
+/**
+ * Shortcuts per command. Commands missing from the map use their defaults; an empty list unbinds one.
+ */
+export type ShortcutBindings = Partial<Record<CommandId, string[]>>;
+
+export const getCommandShortcuts = (bindings: ShortcutBindings, command: CommandDefinition): string[] =>
+  bindings[command.id] ?? command.defaultShortcuts;
+
+/**
+ * Whether a pressed key combination (from `shortcutFromEvent`) triggers `shortcut`.
+ * Cmd stands in for Ctrl so the same bindings work on macOS.
+ */
+export const matchesShortcut = (shortcut: string, pressed: string): boolean => {
+  const target = normalizeShortcut(shortcut);
+  return target === pressed || target === normalizeShortcut(pressed.replace(/\bmeta\b/, 'ctrl'));
+};
+
+export const findCommandForShortcut = (bindings: ShortcutBindings, pressed: string): CommandDefinition | undefined =>
+  COMMANDS.find(command => getCommandShortcuts(bindings, command).some(shortcut => matchesShortcut(shortcut, pressed)));
+
+const KEY_NAMES: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  pageup: 'PageUp',
+  pagedown: 'PageDown'
+};
+
+/**
+ * Spells a shortcut the way the help overlay shows it, e.g. "ctrl+shift+z" as "Ctrl+Shift+Z".
+ */
+export const formatShortcut = (shortcut: string): string =>
+  normalizeShortcut(shortcut)
+    .split('+')
+    .map(part => KEY_NAMES[part] ?? (part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('+');
+
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const raw = localStorage.getItem(SHORTCUTS_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    const bindings: ShortcutBindings = {};
+    COMMANDS.forEach(command => {
+      const shortcuts = parsed?.[command.id];
+      if (Array.isArray(shortcuts) && shortcuts.every(s => typeof s === 'string')) bindings[command.id] = shortcuts;
+    });
+    return bindings;
+  } catch (error) {
+    console.warn("Ignoring unreadable shortcuts:", error);
+    return {};
+  }
+};
+
+export const saveShortcutBindings = (bindings: ShortcutBindings) => {
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(bindings));
+};
+
+/**
+ * Scores `text` against a fuzzy `query`: every query character must appear in order.
+ * Runs of consecutive characters and matches at word starts score higher. Returns null when it doesn't match,
+ * otherwise the score and the matched character positions.
+ */
+export const fuzzyMatch = (query: string, text: string): { score: number; positions: number[] } | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    const previous = positions[positions.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 3;
+    if (index === 0 || /[\s:\-(]/.test(haystack[index - 1])) score += 2;
+    score -= Math.min(3, index - from) * 0.1; // Gaps cost a little
+    positions.push(index);
+    from = index + 1;
+  }
+  return { score, positions };
+};
+
+export type NavigationDirection = 'parent' | 'firstChild' | 'previousSibling' | 'nextSibling';
+
+/**
+ * The column keyboard navigation moves to from `columnId`, following `parentId`. Siblings are in
+ * canvas order (the order of `columns`), and columns for which `isVisible` is false (folded away) are skipped.
+ */
+export const getAdjacentColumnId = (
+  columns: Column[],
+  columnId: string,
+  direction: NavigationDirection,
+  isVisible: (id: string) => boolean
+): string | null => {
+  const column = columns.find(c => c.id === columnId);
+  if (!column) return null;
+  if (direction === 'parent') return column.parentId && isVisible(column.parentId) ? column.parentId : null;
+  if (direction === 'firstChild') return columns.find(c => c.parentId === columnId && isVisible(c.id))?.id ?? null;
+
+  const siblings = columns.filter(c => c.parentId === column.parentId && isVisible(c.id));
+  const index = siblings.findIndex(c => c.id === columnId);
+  return siblings[index + (direction === 'nextSibling' ? 1 : -1)]?.id ?? null;
+};
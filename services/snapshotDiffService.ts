@@ -0,0 +1,133 @@
+import { Column, Message } from "../types";
+import { getVariants } from "./variantService";
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface MessageChange {
+  messageId: string;
+  role: Message['role'];
+  kind: DiffKind;
+  before?: string; // Text in the older tree (absent for added messages)
+  after?: string; // Text in the newer tree (absent for removed messages)
+}
+
+export interface ColumnChange {
+  columnId: string;
+  title: string; // Title in the newer tree, or the last known one for removed columns
+  kind: DiffKind;
+  details: string[]; // Column-level changes, e.g. a rename
+  messages: MessageChange[];
+}
+
+export interface TreeDiff {
+  columns: ColumnChange[];
+  columnCounts: Record<DiffKind, number>;
+  messageCounts: Record<DiffKind, number>;
+}
+
+/**
+ * How a column is highlighted on the canvas. Removed items are not on the canvas,
+ * so only added and changed columns and messages are marked.
+ */
+export interface DiffMark {
+  kind: 'added' | 'changed';
+  messages: Map<string, 'added' | 'changed'>;
+}
+
+export type CanvasDiffMarks = Map<string, DiffMark>;
+
+const sameList = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+const diffMessages = (before: Message[], after: Message[]): MessageChange[] => {
+  const beforeById = new Map(before.map(msg => [msg.id, msg]));
+  const afterIds = new Set(after.map(msg => msg.id));
+  const changes: MessageChange[] = [];
+
+  after.forEach(msg => {
+    const previous = beforeById.get(msg.id);
+    if (!previous) {
+      changes.push({ messageId: msg.id, role: msg.role, kind: 'added', after: msg.text });
+    } else if (previous.text !== msg.text || getVariants(previous).length !== getVariants(msg).length) {
+      changes.push({ messageId: msg.id, role: msg.role, kind: 'changed', before: previous.text, after: msg.text });
+    }
+  });
+  before.forEach(msg => {
+    if (!afterIds.has(msg.id)) changes.push({ messageId: msg.id, role: msg.role, kind: 'removed', before: msg.text });
+  });
+  return changes;
+};
+
+const describeColumnChanges = (before: Column, after: Column): string[] => {
+  const details: string[] = [];
+  if (before.title !== after.title) details.push(`Renamed from "${before.title}"`);
+  if (before.parentId !== after.parentId || before.parentMessageId !== after.parentMessageId) details.push('Moved to another branch point');
+  if (!sameList(before.mergedFrom, after.mergedFrom)) details.push('Synthesis sources changed');
+  if (JSON.stringify(before.settings ?? {}) !== JSON.stringify(after.settings ?? {})) details.push('Model settings changed');
+  return details;
+};
+
+/**
+ * Compares two states of the same tree by column and message id.
+ * Columns are listed in the newer tree's order, followed by the removed ones.
+ */
+export const diffTrees = (before: Column[], after: Column[]): TreeDiff => {
+  const beforeById = new Map(before.map(col => [col.id, col]));
+  const afterIds = new Set(after.map(col => col.id));
+  const columns: ColumnChange[] = [];
+
+  after.forEach(col => {
+    const previous = beforeById.get(col.id);
+    if (!previous) {
+      columns.push({ columnId: col.id, title: col.title, kind: 'added', details: [], messages: diffMessages([], col.messages) });
+      return;
+    }
+    const details = describeColumnChanges(previous, col);
+    const messages = diffMessages(previous.messages, col.messages);
+    if (details.length > 0 || messages.length > 0) {
+      columns.push({ columnId: col.id, title: col.title, kind: 'changed', details, messages });
+    }
+  });
+  before.forEach(col => {
+    if (!afterIds.has(col.id)) {
+      columns.push({ columnId: col.id, title: col.title, kind: 'removed', details: [], messages: diffMessages(col.messages, []) });
+    }
+  });
+
+  const columnCounts: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0 };
+  const messageCounts: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0 };
+  columns.forEach(change => {
+    columnCounts[change.kind]++;
+    change.messages.forEach(msg => messageCounts[msg.kind]++);
+  });
+  return { columns, columnCounts, messageCounts };
+};
+
+export const getCanvasDiffMarks = (diff: TreeDiff): CanvasDiffMarks => {
+  const marks: CanvasDiffMarks = new Map();
+  diff.columns.forEach(change => {
+    if (change.kind === 'removed') return;
+    const messages = new Map<string, 'added' | 'changed'>();
+    change.messages.forEach(msg => {
+      if (msg.kind !== 'removed') messages.set(msg.messageId, msg.kind);
+    });
+    marks.set(change.columnId, { kind: change.kind, messages });
+  });
+  return marks;
+};
+
+/**
+ * One-line summary such as "+2 columns · messages: 5 added, 1 changed".
+ */
+export const summarizeDiff = (diff: TreeDiff): string => {
+  const parts: string[] = [];
+  const { columnCounts: c, messageCounts: m } = diff;
+  if (c.added) parts.push(`+${c.added} ${c.added === 1 ? 'column' : 'columns'}`);
+  if (c.removed) parts.push(`−${c.removed} ${c.removed === 1 ? 'column' : 'columns'}`);
+  const messageParts = [
+    m.added && `${m.added} added`,
+    m.removed && `${m.removed} removed`,
+    m.changed && `${m.changed} changed`
+  ].filter(Boolean);
+  if (messageParts.length > 0) parts.push(`messages: ${messageParts.join(', ')}`);
+  return parts.length > 0 ? parts.join(' · ') : 'No differences';
+};
@@ -0,0 +1,259 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column } from "../types";
+import { LayoutMode } from "./layoutService";
+
+const DB_NAME = 'deepdive-ai';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const SNAPSHOT_STORE = 'snapshots';
+
+/**
+ * Version of the persisted session format.
+ * Bump this whenever `Column` / `Message` change shape and add a step to `migrateSession`.
+ */
+export const SESSION_SCHEMA_VERSION = 1;
+
+export interface StoredSession {
+  id: string;
+  schemaVersion: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  columns: Column[];
+  nodeOffsets: [string, {x: number, y: number}][];
+  pan: {x: number, y: number};
+  scale: number;
+  selectedColumnId: string;
+  layoutMode?: LayoutMode; // Sessions saved before layouts could be switched use the waterfall
+}
+
+/**
+ * A named checkpoint of a session's tree. Column and message ids are the session's own,
+ * so snapshots can be compared with each other and with the live canvas.
+ */
+export interface StoredSnapshot {
+  id: string;
+  sessionId: string;
+  schemaVersion: number;
+  name: string;
+  createdAt: number;
+  columns: Column[];
+  nodeOffsets: [string, {x: number, y: number}][];
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  columnCount: number;
+  messageCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Upgrades a raw record read from storage to the current schema.
+ * Each step migrates from version N to N + 1, so old records walk the whole chain.
+ */
+export const migrateSession = (raw: unknown): StoredSession => {
+  if (!isRecord(raw)) throw new Error('Session record is not an object.');
+  const label = typeof raw.name === 'string' ? raw.name : String(raw.id);
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Session "${label}" was saved by a newer version of DeepDive (schema ${version}).`);
+  }
+
+  let session: Record<string, unknown> = { ...raw };
+
+  if (version < 1) {
+    // Pre-versioned records stored no camera state.
+    session = {
+      ...session,
+      nodeOffsets: session.nodeOffsets ?? [],
+      pan: session.pan ?? { x: 0, y: 0 },
+      scale: session.scale ?? 1,
+      schemaVersion: 1
+    };
+  }
+
+  const columns = session.columns;
+  if (!Array.isArray(columns) || !columns.every(col => isRecord(col) && Array.isArray(col.messages))) {
+    throw new Error(`Session "${label}" has no readable columns.`);
+  }
+
+  // Generations never survive a reload, so nothing can still be thinking.
+  session.columns = (columns as Column[]).map(col => ({
+    ...col,
+    isThinking: false,
+    messages: col.messages.map(msg => {
+      const settled = msg.status === 'streaming' ? { ...msg, status: 'cancelled' as const } : msg;
+      return msg.variants
+        ? { ...settled, variants: msg.variants.map(v => v.status === 'streaming' ? { ...v, status: 'cancelled' as const } : v) }
+        : settled;
+    })
+  }));
+
+  return session as unknown as StoredSession;
+};
+
+const toSummary = (session: StoredSession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  columnCount: session.columns.length,
+  messageCount: session.columns.reduce((sum, col) => sum + col.messages.length, 0)
+});
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const records = await runRequest<unknown[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(record => {
+      try {
+        return toSummary(migrateSession(record));
+      } catch (error) {
+        console.warn("Skipping unreadable session:", error);
+        return null;
+      }
+    })
+    .filter((s): s is SessionSummary => s !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+  const record = await runRequest<unknown>(SESSION_STORE, 'readonly', store => store.get(id));
+  return record ? migrateSession(record) : null;
+};
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  await runRequest(SESSION_STORE, 'readwrite', store => store.put({
+    ...session,
+    schemaVersion: SESSION_SCHEMA_VERSION
+  }));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest(SESSION_STORE, 'readwrite', store => store.delete(id));
+  const snapshots = await listSnapshots(id);
+  await Promise.all(snapshots.map(snapshot => deleteSnapshot(snapshot.id)));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await loadSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name, updatedAt: Date.now() });
+};
+
+/**
+ * Copies a session under a new id. Column and message ids are kept as-is,
+ * they only need to be unique within a session.
+ */
+export const duplicateSession = async (id: string, newId: string): Promise<StoredSession | null> => {
+  const session = await loadSession(id);
+  if (!session) return null;
+  const now = Date.now();
+  const copy: StoredSession = {
+    ...session,
+    id: newId,
+    name: `${session.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveSession(copy);
+  const snapshots = await listSnapshots(id);
+  await Promise.all(snapshots.map(snapshot => saveSnapshot({ ...snapshot, id: uuidv4(), sessionId: newId })));
+  return copy;
+};
+
+const migrateSnapshot = (raw: unknown): StoredSnapshot => {
+  // Snapshots hold the same column records as sessions, so they share the upgrade path
+  const { columns, nodeOffsets } = migrateSession(raw);
+  const record = raw as Record<string, unknown>; // migrateSession has checked that it is an object
+  if (typeof record.id !== 'string' || typeof record.sessionId !== 'string') {
+    throw new Error('Snapshot record has no id or session.');
+  }
+  return {
+    id: record.id,
+    sessionId: record.sessionId,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    name: typeof record.name === 'string' ? record.name : 'Snapshot',
+    createdAt: typeof record.createdAt === 'number' ? record.createdAt : 0,
+    columns,
+    nodeOffsets
+  };
+};
+
+/**
+ * Snapshots of a session, oldest first. Unreadable records are skipped.
+ */
+export const listSnapshots = async (sessionId: string): Promise<StoredSnapshot[]> => {
+  const records = await runRequest<unknown[]>(SNAPSHOT_STORE, 'readonly', store => store.index('sessionId').getAll(sessionId));
+  return records
+    .map(record => {
+      try {
+        return migrateSnapshot(record);
+      } catch (error) {
+        console.warn("Skipping unreadable snapshot:", error);
+        return null;
+      }
+    })
+    .filter((s): s is StoredSnapshot => s !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveSnapshot = async (snapshot: StoredSnapshot): Promise<void> => {
+  await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.put({
+    ...snapshot,
+    schemaVersion: SESSION_SCHEMA_VERSION
+  }));
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(id));
+};
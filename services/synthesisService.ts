@@ -0,0 +1,27 @@
+export type SynthesisMode = 'merge' | 'compare' | 'reconcile';
+
+export const SYNTHESIS_MODES: { id: SynthesisMode; label: string; description: string; prompt: string }[] = [
+  {
+    id: 'merge',
+    label: 'Merge',
+    description: 'Combine the findings into one coherent answer',
+    prompt: 'Merge the findings of the branches above into a single, coherent synthesis. ' +
+      'Keep every important insight, remove repetition, and organize the result by theme rather than by branch.'
+  },
+  {
+    id: 'compare',
+    label: 'Compare',
+    description: 'Contrast the branches side by side',
+    prompt: 'Compare the branches above. Summarize what each one concluded, then lay out where they agree, ' +
+      'where they differ, and what each adds that the others miss. Use a table where it helps.'
+  },
+  {
+    id: 'reconcile',
+    label: 'Reconcile',
+    description: 'Resolve contradictions between them',
+    prompt: 'The branches above may contradict each other. Identify every point of disagreement, ' +
+      'decide which position is better supported (or how both can be true), and state the reconciled conclusion.'
+  }
+];
+
+export const getSynthesisMode = (id: SynthesisMode) => SYNTHESIS_MODES.find(mode => mode.id === id) ?? SYNTHESIS_MODES[0];
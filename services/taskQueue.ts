@@ -0,0 +1,46 @@
+/**
+ * Runs async tasks with at most `getLimit()` in flight; the rest wait in FIFO order.
+ * Tasks are keyed (by column id) so a waiting task can be withdrawn before it starts.
+ */
+export interface TaskQueue {
+  run: (key: string, task: () => Promise<unknown>, onCancelled: () => void) => void;
+  cancel: (key: string) => boolean; // True if a waiting task was removed
+}
+
+interface PendingTask {
+  key: string;
+  task: () => Promise<unknown>;
+  onCancelled: () => void;
+}
+
+export const createTaskQueue = (getLimit: () => number): TaskQueue => {
+  const waiting: PendingTask[] = [];
+  let active = 0;
+
+  const pump = () => {
+    while (waiting.length > 0 && active < Math.max(1, getLimit())) {
+      const next = waiting.shift()!;
+      active++;
+      next.task()
+        .catch(error => console.error("Queued task failed:", error))
+        .finally(() => {
+          active--;
+          pump();
+        });
+    }
+  };
+
+  return {
+    run: (key, task, onCancelled) => {
+      waiting.push({ key, task, onCancelled });
+      pump();
+    },
+    cancel: (key) => {
+      const index = waiting.findIndex(t => t.key === key);
+      if (index === -1) return false;
+      const [removed] = waiting.splice(index, 1);
+      removed.onCancelled();
+      return true;
+    }
+  };
+};
@@ -0,0 +1,169 @@
+import type { Element, ElementContent, Root, RootContent, Text } from 'hast';
+import { TextQuoteSelector } from "../types";
+import { TextRange, findTermRanges } from "./searchService";
+
+const CONTEXT_LENGTH = 32; // Characters of prefix and suffix kept around a selection
+
+// Whitespace directly inside these is not rendered (mirrors hast-util-to-jsx-runtime)
+const TABLE_ELEMENTS = new Set(['table', 'tbody', 'thead', 'tfoot', 'tr']);
+
+// Line breaks between blocks count towards offsets but are never wrapped
+const BLOCK_CONTAINERS = new Set(['ul', 'ol', 'blockquote', 'div']);
+
+/**
+ * Selector for `text.slice(start, end)`, where `text` is a message's rendered text: what the reader
+ * sees and selects, i.e. the text of the rendered markdown without the markup.
+ */
+export const createTextQuoteSelector = (text: string, start: number, end: number): TextQuoteSelector => ({
+  exact: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + CONTEXT_LENGTH),
+  start
+});
+
+const commonPrefixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+  return i;
+};
+
+/**
+ * The occurrence of `selector.exact` in `text` whose surroundings match best, or null if it isn't there.
+ */
+export const resolveTextQuote = (text: string, selector: TextQuoteSelector): TextRange | null => {
+  const exact = selector.exact;
+  if (!exact) return null;
+  let best: { start: number; score: number; distance: number } | null = null;
+  let idx = text.indexOf(exact);
+  while (idx !== -1) {
+    const score = commonSuffixLength(text.slice(Math.max(0, idx - CONTEXT_LENGTH), idx), selector.prefix ?? '')
+      + commonPrefixLength(text.slice(idx + exact.length, idx + exact.length + CONTEXT_LENGTH), selector.suffix ?? '');
+    const distance = selector.start !== undefined ? Math.abs(idx - selector.start) : idx;
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: idx, score, distance };
+    }
+    idx = text.indexOf(exact, idx + 1);
+  }
+  return best ? { start: best.start, end: best.start + exact.length } : null;
+};
+
+interface TextSlot {
+  node: Text;
+  parent: Root | Element;
+  start: number; // Offset of the node's first character in the rendered text
+}
+
+const collectText = (tree: Root): TextSlot[] => {
+  const slots: TextSlot[] = [];
+  let offset = 0;
+  const walk = (parent: Root | Element) => {
+    parent.children.forEach(child => {
+      if (child.type === 'text') {
+        if (parent.type === 'element' && TABLE_ELEMENTS.has(parent.tagName) && !child.value.trim()) return;
+        slots.push({ node: child, parent, start: offset });
+        offset += child.value.length;
+      } else if (child.type === 'element') {
+        walk(child);
+      }
+    });
+  };
+  walk(tree);
+  return slots;
+};
+
+/**
+ * A range of rendered text to wrap. Ranges may span elements and overlap each other; each text
+ * piece is wrapped once per range covering it, outermost range first. `isLast` is set on the
+ * wrapper of the range's final piece, so ids and markers can be put on exactly one element.
+ */
+interface WrapRange extends TextRange {
+  wrap: (isLast: boolean) => Element;
+}
+
+const wrapTextRanges = (tree: Root, getRanges: (text: string) => WrapRange[]) => {
+  const slots = collectText(tree);
+  const ranges = getRanges(slots.map(slot => slot.node.value).join(''))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+  if (ranges.length === 0) return;
+
+  // Back to front, so sibling indexes stay valid while text nodes are replaced
+  [...slots].reverse().forEach(({ node, parent, start }) => {
+    const end = start + node.value.length;
+    const touching = ranges.filter(range => range.start < end && range.end > start);
+    if (touching.length === 0) return;
+    if (!node.value.trim() && (parent.type === 'root' || BLOCK_CONTAINERS.has(parent.tagName))) return;
+
+    const cuts = new Set([start, end]);
+    touching.forEach(range => {
+      cuts.add(Math.max(start, range.start));
+      cuts.add(Math.min(end, range.end));
+    });
+    const points = Array.from(cuts).sort((a, b) => a - b);
+
+    const pieces: ElementContent[] = [];
+    points.slice(0, -1).forEach((from, i) => {
+      const to = points[i + 1];
+      let piece: ElementContent = { type: 'text', value: node.value.slice(from - start, to - start) };
+      const covering = touching.filter(range => range.start <= from && range.end >= to);
+      for (let j = covering.length - 1; j >= 0; j--) {
+        const wrapper = covering[j].wrap(covering[j].end === to);
+        wrapper.children = [piece];
+        piece = wrapper;
+      }
+      pieces.push(piece);
+    });
+
+    const index = (parent.children as RootContent[]).indexOf(node);
+    (parent.children as RootContent[]).splice(index, 1, ...pieces);
+  });
+};
+
+/**
+ * Where a branch (or a fan-out of branches sharing one selection) starts in its parent message.
+ */
+export interface BranchAnchor {
+  id: string; // Element id the connector is drawn from
+  columnId: string; // Column selected by clicking the highlight
+  selector: TextQuoteSelector;
+  count: number; // Branches sharing the selection
+}
+
+/**
+ * Rehype plugin that highlights every branch anchor across whatever markdown elements it spans.
+ * Anchors that can't be found in the message are skipped.
+ */
+export const rehypeBranchAnchors = (options: { anchors: BranchAnchor[] }) => (tree: Root) => {
+  wrapTextRanges(tree, text => options.anchors.flatMap(anchor => {
+    const range = resolveTextQuote(text, anchor.selector);
+    if (!range) return [];
+    const className = anchor.count > 1 ? ['source-highlight', 'source-highlight-cluster'] : ['source-highlight'];
+    return [{
+      ...range,
+      wrap: (isLast: boolean): Element => ({
+        type: 'element',
+        tagName: 'span',
+        properties: isLast
+          ? { id: anchor.id, className, dataBranchColumn: anchor.columnId, dataBranchCount: anchor.count > 1 ? anchor.count : undefined }
+          : { className, dataBranchColumn: anchor.columnId, dataAnchor: anchor.id },
+        children: []
+      })
+    }];
+  }));
+};
+
+/**
+ * Rehype plugin that marks every occurrence of the search terms.
+ */
+export const rehypeSearchHighlight = (options: { terms: string[] }) => (tree: Root) => {
+  wrapTextRanges(tree, text => findTermRanges(text, options.terms).map(range => ({
+    ...range,
+    wrap: (): Element => ({ type: 'element', tagName: 'mark', properties: { className: ['search-highlight'] }, children: [] })
+  })));
+};
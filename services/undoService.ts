@@ -0,0 +1,64 @@
+import { Column, Message } from "../types";
+
+export const MAX_UNDO_ENTRIES = 100;
+
+/**
+ * The canvas as it was before a structural operation (branching, closing, collapsing, folding, resizing, moving, reattaching, renaming, grafting).
+ * Column arrays are immutable, so entries share everything the operation did not touch.
+ */
+export interface UndoEntry {
+  label: string; // Shown in the toolbar tooltip, e.g. `Close "Pricing"`
+  columns: Column[];
+  nodeOffsets: Map<string, {x: number, y: number}>;
+  selectedColumnId: string;
+  restoresContent?: boolean; // Brings back messages too, not just the structure (restoring a named snapshot)
+}
+
+// Column fields the undoable operations change; everything else keeps its live value on restore
+const STRUCTURAL_FIELDS = [
+  'title',
+  'isCollapsed',
+  'isFolded',
+  'width',
+  'height',
+  'mergedFrom',
+  'parentId',
+  'parentMessageId',
+  'parentVariantId',
+  'contextSnippet',
+  'sourceAnchor',
+  'clusterId',
+  'reattachedAt'
+] as const;
+
+const settleMessage = (message: Message): Message => message.status !== 'streaming' ? message : {
+  ...message,
+  status: 'cancelled',
+  variants: message.variants?.map(v => v.status === 'streaming' ? { ...v, status: 'cancelled' } : v)
+};
+
+/**
+ * Brings back the column set of `snapshot` without rolling back content that arrived since it was taken:
+ * columns that still exist keep their live messages and generation state and only take the structural
+ * fields from the snapshot. Columns that come back from the snapshot are idle, so replies that were
+ * streaming into them when they went away are marked cancelled.
+ * With `restoreContent` every column is taken from the snapshot as-is; callers stop all generations first.
+ */
+export const restoreColumns = (snapshot: Column[], live: Column[], restoreContent = false): Column[] => {
+  const liveById = new Map(live.map(col => [col.id, col]));
+  return snapshot.map(col => {
+    const current = liveById.get(col.id);
+    if (!current || restoreContent) {
+      return { ...col, isThinking: false, messages: col.messages.map(settleMessage) };
+    }
+    const restored: Column = { ...current };
+    const restore = <K extends typeof STRUCTURAL_FIELDS[number]>(field: K) => {
+      restored[field] = col[field];
+    };
+    STRUCTURAL_FIELDS.forEach(restore);
+    return restored;
+  });
+};
+
+export const pushUndoEntry = (stack: UndoEntry[], entry: UndoEntry): UndoEntry[] =>
+  [...stack, entry].slice(-MAX_UNDO_ENTRIES);
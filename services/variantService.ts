@@ -0,0 +1,81 @@
+import { Message, MessageVariant } from "../types";
+
+/**
+ * Helpers for regenerated model replies.
+ * A message without `variants` behaves as a single variant whose id is the message id,
+ * so callers can always address "the variant" without special-casing.
+ */
+
+const variantFromMessage = (message: Message): MessageVariant => ({
+  id: message.id,
+  text: message.text,
+  timestamp: message.timestamp,
+  usage: message.usage,
+  status: message.status,
+  error: message.error
+});
+
+// The top-level reply fields always mirror the active variant
+const mirrorVariant = (message: Message, variant: MessageVariant): Message => ({
+  ...message,
+  text: variant.text,
+  timestamp: variant.timestamp,
+  usage: variant.usage,
+  status: variant.status,
+  error: variant.error
+});
+
+export const getVariants = (message: Message): MessageVariant[] =>
+  message.variants && message.variants.length > 0 ? message.variants : [variantFromMessage(message)];
+
+export const getActiveVariantId = (message: Message): string =>
+  message.variants && message.activeVariantId ? message.activeVariantId : message.id;
+
+/**
+ * Text of a specific variant, where no id means the original reply (whose variant id is the message id).
+ * Falls back to the active one if the variant no longer exists.
+ */
+export const getVariantText = (message: Message, variantId: string | undefined): string => {
+  if (!message.variants) return message.text;
+  const id = variantId ?? message.id;
+  return message.variants.find(v => v.id === id)?.text ?? message.text;
+};
+
+/**
+ * Appends a new variant and makes it the active one.
+ */
+export const addVariant = (message: Message, variant: MessageVariant): Message => {
+  const variants = [...getVariants(message), variant];
+  return mirrorVariant({ ...message, variants, activeVariantId: variant.id }, variant);
+};
+
+export const selectVariant = (message: Message, variantId: string): Message => {
+  const variant = getVariants(message).find(v => v.id === variantId);
+  if (!variant || !message.variants) return message;
+  return mirrorVariant({ ...message, activeVariantId: variant.id }, variant);
+};
+
+/**
+ * Updates one variant, keeping the top-level mirror in sync if it is the active one.
+ */
+export const patchVariant = (
+  message: Message,
+  variantId: string,
+  patch: (variant: MessageVariant) => Partial<MessageVariant>
+): Message => {
+  if (!message.variants) {
+    if (variantId !== message.id) return message;
+    return { ...message, ...patch(variantFromMessage(message)) };
+  }
+
+  let updated: MessageVariant | null = null;
+  const variants = message.variants.map(v => {
+    if (v.id !== variantId) return v;
+    updated = { ...v, ...patch(v) };
+    return updated;
+  });
+  if (!updated) return message;
+
+  const next = { ...message, variants };
+  return getActiveVariantId(message) === variantId ? mirrorVariant(next, updated) : next;
+};
@@ -1,8 +1,54 @@
+export interface UsageStats {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// Generation settings a column (or a single regenerated reply) can override.
+// Unset fields fall back to the parent layer and finally to the provider defaults.
+export interface ModelSettings {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  systemPrompt?: string;
+}
+
+// Lifecycle of a model reply. Messages without a status are complete.
+export type MessageStatus = 'streaming' | 'done' | 'cancelled' | 'failed';
+
+// One alternative version of a model reply.
+export interface MessageVariant {
+  id: string;
+  text: string;
+  timestamp: number;
+  usage?: UsageStats;
+  status?: MessageStatus;
+  error?: string;
+  model?: string; // Model override used to generate this variant
+  temperature?: number; // Temperature override used to generate this variant
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  usage?: UsageStats; // Token usage reported by the provider for model replies
+  status?: MessageStatus;
+  error?: string; // Failure reason when status is 'failed'
+  // Regenerated replies. When present, the top-level text/status/error/usage
+  // mirror the active variant; the original reply keeps the message id.
+  variants?: MessageVariant[];
+  activeVariantId?: string;
+}
+
+// Locates a selection in a message's rendered text. Prefix and suffix tell repeated
+// phrases apart; `start` (an offset into the rendered text) breaks remaining ties.
+export interface TextQuoteSelector {
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+  start?: number;
 }
 
 export interface Column {
@@ -10,11 +56,22 @@ export interface Column {
   title: string;
   parentId: string | null; // The ID of the column that spawned this one
   parentMessageId: string | null; // The ID of the specific message in the parent column
+  parentVariantId?: string; // The variant of that message the branch was spawned from (defaults to the original)
   contextSnippet: string | null; // The text selected to spawn this branch
+  sourceAnchor?: TextQuoteSelector; // Where that text was selected; older branches are matched by the snippet alone
+  timelineOf?: string; // Set on forks created by editing a message: the column they are an alternate timeline of
   messages: Message[];
   inputValue: string;
   isThinking: boolean;
   isCollapsed: boolean;
+  isFolded?: boolean; // Every column below this one is hidden from the canvas
+  width?: number; // Card width in canvas units, once resized
+  height?: number; // Fixed card height once resized; the messages scroll inside. Otherwise the card grows with them
+  mergedFrom?: string[]; // Synthesis columns: every column whose path feeds the context (parentId is the first)
+  clusterId?: string; // Shared by sibling branches fanned out from one selection in a single step
+  settings?: ModelSettings; // Copied to child branches when they are created
+  contextSummaries?: Record<string, string>; // Cached summaries of this column's history, keyed by content hash
+  reattachedAt?: number; // Set when a move changed this column's history: its replies were generated under the old one
 }
 
 export interface BranchRequest {